@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { MetricsAggregator } from "./aggregator";
+import { MetricsDb } from "../metricsDb";
+import type { MetricSink } from "../sinks/sink";
+import { type ExportedMetricPayload, MetricType } from "../types";
+
+class MemoryStorage {
+  entries = new Map<string, unknown>();
+  alarm: number | null = null;
+
+  async get(keys: string[]): Promise<Map<string, unknown>> {
+    return new Map(
+      keys.filter((key) => this.entries.has(key)).map((key) => [key, this.entries.get(key)]),
+    );
+  }
+
+  async put(entries: Record<string, unknown>): Promise<void> {
+    for (const [key, value] of Object.entries(entries)) {
+      this.entries.set(key, structuredClone(value));
+    }
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.entries.delete(key);
+    }
+  }
+
+  async list({ prefix }: { prefix: string }): Promise<Map<string, unknown>> {
+    return new Map(
+      [...this.entries].filter(([key]) => key.startsWith(prefix)).sort(([a], [b]) => (a < b ? -1 : 1)),
+    );
+  }
+
+  async getAlarm(): Promise<number | null> {
+    return this.alarm;
+  }
+
+  async setAlarm(time: number): Promise<void> {
+    this.alarm = time;
+  }
+}
+
+class TestMetricSink implements MetricSink {
+  received: ExportedMetricPayload[] = [];
+
+  async sendMetrics(metrics: ExportedMetricPayload[]): Promise<void> {
+    this.received.push(...metrics);
+  }
+}
+
+/**
+ * Aggregates of the metrics recorded by one tail isolate
+ */
+function isolateAggregates(
+  record: (metrics: MetricsDb) => void,
+): ReturnType<MetricsDb["toAggregates"]> {
+  const metrics = new MetricsDb();
+  record(metrics);
+  return metrics.toAggregates();
+}
+
+const WINDOW_START = 1_700_000_040_000;
+
+describe("MetricsAggregator", () => {
+  let storage: MemoryStorage;
+  let sink: TestMetricSink;
+  let aggregator: MetricsAggregator;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(WINDOW_START + 5_000);
+    storage = new MemoryStorage();
+    sink = new TestMetricSink();
+    aggregator = new MetricsAggregator(
+      storage as unknown as DurableObjectStorage,
+      { sinks: [sink], windowSeconds: 60, allowedLatenessSeconds: 30 },
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should merge partial aggregates from several isolates into one series", async () => {
+    const histogram = {
+      type: MetricType.HISTOGRAM as const,
+      name: "request.duration",
+      tags: { route: "/" },
+      options: { percentiles: [0.5, 0.99], aggregates: ["count" as const] },
+    };
+
+    await aggregator.merge(
+      isolateAggregates((metrics) => {
+        metrics.storeMetric({ type: MetricType.COUNT, name: "requests", value: 2, tags: {}, timestamp: WINDOW_START + 1000 });
+        for (const value of [1, 2, 3]) {
+          metrics.storeMetric({ ...histogram, value, timestamp: WINDOW_START + 1000 });
+        }
+      }),
+    );
+    await aggregator.merge(
+      isolateAggregates((metrics) => {
+        metrics.storeMetric({ type: MetricType.COUNT, name: "requests", value: 3, tags: {}, timestamp: WINDOW_START + 2000 });
+        for (const value of [7, 9]) {
+          metrics.storeMetric({ ...histogram, value, timestamp: WINDOW_START + 2000 });
+        }
+      }),
+    );
+
+    expect(storage.alarm).toBe(WINDOW_START + 90_000);
+    vi.setSystemTime(storage.alarm ?? 0);
+    await aggregator.flush();
+
+    const byName = Object.fromEntries(sink.received.map((metric) => [metric.name, metric]));
+    expect(byName.requests).toMatchObject({ value: 5, timestamp: WINDOW_START });
+    expect(byName["request.duration.count"].value).toBe(5);
+    expect(byName["request.duration.p50"].value).toBeCloseTo(3, 1);
+    expect(byName["request.duration.p99"].value).toBe(9);
+    expect(storage.entries.size).toBe(0);
+  });
+
+  it("should merge sets and keep the latest gauge", async () => {
+    await aggregator.merge(
+      isolateAggregates((metrics) => {
+        metrics.storeMetric({ type: MetricType.SET, name: "users", value: "a", tags: {}, timestamp: WINDOW_START });
+        metrics.storeMetric({ type: MetricType.SET, name: "users", value: "b", tags: {}, timestamp: WINDOW_START });
+        metrics.storeMetric({ type: MetricType.GAUGE, name: "queue.depth", value: 7, tags: {}, timestamp: WINDOW_START + 2000 });
+      }),
+    );
+    await aggregator.merge(
+      isolateAggregates((metrics) => {
+        metrics.storeMetric({ type: MetricType.SET, name: "users", value: "b", tags: {}, timestamp: WINDOW_START });
+        metrics.storeMetric({ type: MetricType.SET, name: "users", value: "c", tags: {}, timestamp: WINDOW_START });
+        metrics.storeMetric({ type: MetricType.GAUGE, name: "queue.depth", value: 3, tags: {}, timestamp: WINDOW_START + 1000 });
+      }),
+    );
+
+    vi.setSystemTime(WINDOW_START + 90_000);
+    await aggregator.flush();
+
+    const byName = Object.fromEntries(sink.received.map((metric) => [metric.name, metric.value]));
+    expect(byName).toEqual({ users: 3, "queue.depth": 7 });
+  });
+
+  it("should flush windows separately and keep open windows", async () => {
+    const count = (timestamp: number) =>
+      isolateAggregates((metrics) => {
+        metrics.storeMetric({ type: MetricType.COUNT, name: "requests", value: 1, tags: {}, timestamp });
+      });
+
+    await aggregator.merge(count(WINDOW_START + 1000));
+    vi.setSystemTime(WINDOW_START + 65_000);
+    await aggregator.merge(count(WINDOW_START + 61_000));
+
+    vi.setSystemTime(WINDOW_START + 90_000);
+    await aggregator.flush();
+
+    expect(sink.received).toEqual([
+      expect.objectContaining({ name: "requests", value: 1, timestamp: WINDOW_START }),
+    ]);
+    expect(storage.entries.size).toBe(1);
+    expect(storage.alarm).toBe(WINDOW_START + 150_000);
+  });
+
+  it("should merge aggregates of closed windows into the current window", async () => {
+    vi.setSystemTime(WINDOW_START + 95_000);
+    await aggregator.merge(
+      isolateAggregates((metrics) => {
+        metrics.storeMetric({ type: MetricType.COUNT, name: "requests", value: 1, tags: {}, timestamp: WINDOW_START + 1000 });
+      }),
+    );
+
+    vi.setSystemTime(WINDOW_START + 150_000);
+    await aggregator.flush();
+
+    expect(sink.received).toEqual([
+      expect.objectContaining({ name: "requests", timestamp: WINDOW_START + 60_000 }),
+    ]);
+  });
+
+  it("should drop a window after its deliveries failed", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const failingAggregator = new MetricsAggregator(
+      storage as unknown as DurableObjectStorage,
+      {
+        sinks: [{ sendMetrics: () => Promise.reject(new Error("down")) }],
+        retry: { maxAttempts: 1 },
+      },
+    );
+    await failingAggregator.merge(
+      isolateAggregates((metrics) => {
+        metrics.storeMetric({ type: MetricType.COUNT, name: "requests", value: 1, tags: {}, timestamp: WINDOW_START });
+      }),
+    );
+
+    vi.setSystemTime(WINDOW_START + 90_000);
+    await failingAggregator.flush();
+
+    expect(error).toHaveBeenCalledWith(
+      "Failed to flush aggregated metrics to 1 sink(s): down",
+    );
+    expect(storage.entries.size).toBe(0);
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,211 @@
+import { type MetricAggregate, MetricsDb, seriesKey } from "../metricsDb";
+import type { MetricSink } from "../sinks/sink";
+import type { MetricRoute } from "../routing";
+import type { RetryPolicy } from "../retry";
+import { deliverMetrics } from "../metricsDelivery";
+import type { QuantileSketchFactory } from "../utils/sketch";
+
+export interface MetricsAggregatorOptions {
+  /**
+   * Sinks the merged series are flushed to, with the same routing as a `TailExporter`
+   */
+  sinks: (MetricSink | MetricRoute)[];
+  /**
+   * Length of the aggregation windows in seconds. Series are assigned to the window
+   * containing the start of their bucket, or the time they were last updated without bucketing,
+   * and exported with the window's start time.
+   * Default: 60 Seconds
+   */
+  windowSeconds?: number;
+  /**
+   * How long a window accepts partial aggregates after it ends, in seconds.
+   * Later aggregates are merged into the current window instead.
+   * Default: 30 Seconds
+   */
+  allowedLatenessSeconds?: number;
+  /**
+   * Retry policy for failed deliveries, applied to each sink independently.
+   * Default: 3 attempts with exponential backoff, see `RetryPolicy`
+   */
+  retry?: RetryPolicy;
+  /**
+   * Sketch of the histogram series, which must match the sketch of the tail isolates.
+   * Default: a DDSketch with a relative accuracy of 1%, see `ddSketch`
+   */
+  histogramSketch?: QuantileSketchFactory;
+}
+
+const WINDOW_PREFIX = "window/";
+// Max number of keys of a single storage operation
+const STORAGE_BATCH_SIZE = 128;
+
+/**
+ * Storage key of a series in a window, ordered by window start
+ */
+function windowKey(windowStart: number, key: string): string {
+  return `${WINDOW_PREFIX}${String(windowStart).padStart(15, "0")}/${key}`;
+}
+
+function windowStartOf(storageKey: string): number {
+  return Number(
+    storageKey.slice(WINDOW_PREFIX.length, WINDOW_PREFIX.length + 15),
+  );
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Merges partial aggregates from many tail isolates into one series per time window,
+ * persisted in Durable Object storage, and flushes each window once it closed.
+ * Used by `MetricsAggregatorDurableObject`.
+ */
+export class MetricsAggregator {
+  #storage: DurableObjectStorage;
+  #sinks: (MetricSink | MetricRoute)[];
+  #windowMs: number;
+  #allowedLatenessMs: number;
+  #retryPolicy?: RetryPolicy;
+  #histogramSketch?: QuantileSketchFactory;
+
+  constructor(storage: DurableObjectStorage, options: MetricsAggregatorOptions) {
+    this.#storage = storage;
+    this.#sinks = options.sinks;
+    this.#windowMs = (options.windowSeconds ?? 60) * 1000;
+    this.#allowedLatenessMs = (options.allowedLatenessSeconds ?? 30) * 1000;
+    this.#retryPolicy = options.retry;
+    this.#histogramSketch = options.histogramSketch;
+  }
+
+  /**
+   * Merge partial aggregates into their windows and schedule the flush of those windows
+   */
+  async merge(aggregates: MetricAggregate[]): Promise<void> {
+    const now = Date.now();
+    const incoming = new Map<string, MetricAggregate[]>();
+    for (const aggregate of aggregates) {
+      const key = windowKey(
+        this.#windowStart(aggregate.bucketStart ?? aggregate.lastUpdated, now),
+        seriesKey(aggregate),
+      );
+      incoming.set(key, [...(incoming.get(key) ?? []), aggregate]);
+    }
+    if (incoming.size === 0) {
+      return;
+    }
+
+    const keys = Array.from(incoming.keys());
+    const existing = new Map<string, MetricAggregate>();
+    for (const keysChunk of chunk(keys, STORAGE_BATCH_SIZE)) {
+      for (const [key, value] of await this.#storage.get<MetricAggregate>(keysChunk)) {
+        existing.set(key, value);
+      }
+    }
+
+    const merged: Record<string, MetricAggregate> = {};
+    for (const [key, partials] of incoming) {
+      const series = new MetricsDb({ histogramSketch: this.#histogramSketch });
+      const stored = existing.get(key);
+      for (const partial of stored ? [stored, ...partials] : partials) {
+        series.mergeAggregate(partial);
+      }
+      merged[key] = series.toAggregates()[0];
+    }
+    for (const keysChunk of chunk(keys, STORAGE_BATCH_SIZE)) {
+      await this.#storage.put(
+        Object.fromEntries(keysChunk.map((key) => [key, merged[key]])),
+      );
+    }
+
+    await this.#scheduleFlush(Math.min(...keys.map(windowStartOf)));
+  }
+
+  /**
+   * Export the closed windows to the sinks and remove them from storage, meant to run on an alarm.
+   * Deliveries that still fail after retries are dropped so the other sinks don't receive a window twice.
+   */
+  async flush(): Promise<void> {
+    const now = Date.now();
+    const stored = await this.#storage.list<MetricAggregate>({
+      prefix: WINDOW_PREFIX,
+    });
+
+    const windows = new Map<number, [string, MetricAggregate][]>();
+    for (const entry of stored) {
+      const windowStart = windowStartOf(entry[0]);
+      windows.set(windowStart, [...(windows.get(windowStart) ?? []), entry]);
+    }
+
+    let nextWindow: number | undefined;
+    for (const [windowStart, entries] of windows) {
+      if (!this.#isClosed(windowStart, now)) {
+        nextWindow = Math.min(nextWindow ?? windowStart, windowStart);
+        continue;
+      }
+
+      await this.#flushWindow(
+        windowStart,
+        entries.map(([, aggregate]) => aggregate),
+      );
+      for (const keysChunk of chunk(
+        entries.map(([key]) => key),
+        STORAGE_BATCH_SIZE,
+      )) {
+        await this.#storage.delete(keysChunk);
+      }
+    }
+
+    // The alarm that triggered the flush has fired, so the next one is set unconditionally
+    if (nextWindow !== undefined) {
+      await this.#storage.setAlarm(this.#flushTime(nextWindow));
+    }
+  }
+
+  async #flushWindow(
+    windowStart: number,
+    aggregates: MetricAggregate[],
+  ): Promise<void> {
+    const series = new MetricsDb({ histogramSketch: this.#histogramSketch });
+    for (const aggregate of aggregates) {
+      series.mergeAggregate(aggregate);
+    }
+    await deliverMetrics(this.#sinks, series, {
+      timestamp: windowStart,
+      retryPolicy: this.#retryPolicy,
+      histogramSketch: this.#histogramSketch,
+      description: "aggregated metrics",
+    });
+  }
+
+  /**
+   * Start of the window a series updated at `timestamp` belongs to.
+   * Series of a closed window are merged into the current window.
+   */
+  #windowStart(timestamp: number, now: number): number {
+    const windowStart = timestamp - (timestamp % this.#windowMs);
+    return this.#isClosed(windowStart, now)
+      ? now - (now % this.#windowMs)
+      : windowStart;
+  }
+
+  #isClosed(windowStart: number, now: number): boolean {
+    return this.#flushTime(windowStart) <= now;
+  }
+
+  #flushTime(windowStart: number): number {
+    return windowStart + this.#windowMs + this.#allowedLatenessMs;
+  }
+
+  async #scheduleFlush(windowStart: number): Promise<void> {
+    const flushTime = this.#flushTime(windowStart);
+    const alarm = await this.#storage.getAlarm();
+    if (alarm === null || alarm > flushTime) {
+      await this.#storage.setAlarm(flushTime);
+    }
+  }
+}
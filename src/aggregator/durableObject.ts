@@ -0,0 +1,46 @@
+import { DurableObject } from "cloudflare:workers";
+import type { MetricAggregate } from "../metricsDb";
+import { MetricsAggregator, type MetricsAggregatorOptions } from "./aggregator";
+
+/**
+ * A Durable Object that merges the partial aggregates of every tail isolate, so percentiles
+ * and counts reflect all traffic instead of one isolate's slice of it.
+ * Extend it in the Tail Worker to configure the sinks, bind it as a Durable Object namespace,
+ * and send metrics to it with an `AggregatorMetricSink`.
+ * @example
+ * export class MetricsAggregatorDO extends MetricsAggregatorDurableObject<Env> {
+ *   protected getAggregatorOptions(env: Env): MetricsAggregatorOptions {
+ *     return { sinks: [new DatadogMetricSink({ apiKey: env.DD_API_KEY })] };
+ *   }
+ * }
+ */
+export abstract class MetricsAggregatorDurableObject<
+  Env = unknown,
+> extends DurableObject<Env> {
+  #aggregator?: MetricsAggregator;
+
+  /**
+   * The aggregator options, e.g. sinks created with secrets from the env
+   */
+  protected abstract getAggregatorOptions(env: Env): MetricsAggregatorOptions;
+
+  async merge(aggregates: MetricAggregate[]): Promise<void> {
+    await this.#getAggregator().merge(aggregates);
+  }
+
+  async alarm(): Promise<void> {
+    await this.#getAggregator().flush();
+  }
+
+  /**
+   * The options are resolved on first use, since the fields of a subclass
+   * aren't initialized yet while the base class constructor runs
+   */
+  #getAggregator(): MetricsAggregator {
+    this.#aggregator ??= new MetricsAggregator(
+      this.ctx.storage,
+      this.getAggregatorOptions(this.env),
+    );
+    return this.#aggregator;
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { DeadLetterDurableObject } from "./durableObject";
+import type { DeadLetterBatch } from "./store";
+
+/**
+ * Storage with the key limits of Durable Object storage
+ */
+function createState(): { state: DurableObjectState; values: Map<string, unknown> } {
+  const values = new Map<string, unknown>();
+  const checkKeys = (keys: string[]) => {
+    if (keys.length > 128) {
+      throw new Error(`${keys.length} keys exceed the limit`);
+    }
+  };
+  const storage = {
+    async get(keys: string[]) {
+      checkKeys(keys);
+      return new Map(
+        keys.filter((key) => values.has(key)).map((key) => [key, values.get(key)]),
+      );
+    },
+    async put(entries: Record<string, unknown>) {
+      checkKeys(Object.keys(entries));
+      for (const [key, value] of Object.entries(entries)) {
+        if (JSON.stringify(value).length > 128 * 1024) {
+          throw new Error(`Value of ${key} exceeds the limit`);
+        }
+        values.set(key, value);
+      }
+    },
+    async delete(keys: string[]) {
+      checkKeys(keys);
+      for (const key of keys) {
+        values.delete(key);
+      }
+    },
+    async list({ prefix, limit }: { prefix: string; limit?: number }) {
+      const keys = [...values.keys()]
+        .filter((key) => key.startsWith(prefix))
+        .sort()
+        .slice(0, limit);
+      return new Map(keys.map((key) => [key, values.get(key)]));
+    },
+  };
+  const state = {
+    storage,
+    blockConcurrencyWhile: <T>(callback: () => Promise<T>) => callback(),
+  };
+  return { state: state as unknown as DurableObjectState, values };
+}
+
+/**
+ * The `DurableObject` base class requires a native state, so the object is created without it
+ */
+function createStore(state: DurableObjectState): DeadLetterDurableObject {
+  return Object.assign(Object.create(DeadLetterDurableObject.prototype), {
+    ctx: state,
+  });
+}
+
+function createBatch(id: string, items: unknown[]): DeadLetterBatch {
+  return { id, kind: "logs", sink: "otel", createdAt: 1000, items };
+}
+
+describe("DeadLetterDurableObject", () => {
+  it("should split batches larger than a stored value", async () => {
+    const { state } = createState();
+    const store = createStore(state);
+    const items = Array.from({ length: 300 }, (_, i) => ({ i, message: "x".repeat(1024) }));
+
+    await store.put(createBatch("01", items));
+
+    const batches = await store.list("logs", 10);
+    expect(batches.length).toBeGreaterThan(1);
+    expect(batches.map((batch) => batch.id)).toEqual(
+      batches.map((_, index) => `01.${String(index).padStart(4, "0")}`),
+    );
+    expect(batches.flatMap((batch) => batch.items)).toEqual(items);
+  });
+
+  it("should claim each batch once until it's released", async () => {
+    const { state } = createState();
+    const store = createStore(state);
+    await store.put(createBatch("01", [1]));
+    await store.put(createBatch("02", [2]));
+
+    const claimed = await store.claim("logs", 10, 60_000);
+    expect(claimed.map((batch) => batch.id)).toEqual(["01", "02"]);
+    expect(await store.claim("logs", 10, 60_000)).toEqual([]);
+
+    await store.delete("logs", ["01"]);
+    await store.release("logs", ["02"]);
+    expect((await store.claim("logs", 10, 60_000)).map((batch) => batch.id)).toEqual(["02"]);
+  });
+
+  it("should delete more batches than a storage operation accepts", async () => {
+    const { state, values } = createState();
+    const store = createStore(state);
+    const ids = Array.from({ length: 200 }, (_, i) => String(i).padStart(3, "0"));
+    for (const id of ids) {
+      await store.put(createBatch(id, [id]));
+    }
+    expect(await store.claim("logs", 200, 60_000)).toHaveLength(200);
+
+    await store.delete("logs", ids);
+
+    expect(values.size).toBe(0);
+  });
+});
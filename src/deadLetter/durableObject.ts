@@ -0,0 +1,162 @@
+import { DurableObject } from "cloudflare:workers";
+import {
+  batchKey,
+  type DeadLetterBatch,
+  type DeadLetterKind,
+  type DeadLetterStore,
+  splitBatch,
+} from "./store";
+
+// Durable Object storage operations accept at most 128 keys
+const MAX_KEYS_PER_OPERATION = 128;
+// Values are limited to 128 KiB once serialized, which is measured on the JSON with some headroom
+const MAX_VALUE_BYTES = 120 * 1024;
+const CLAIM_PREFIX = "claim/";
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+async function deleteKeys(
+  storage: DurableObjectStorage,
+  keys: string[],
+): Promise<void> {
+  for (const keysChunk of chunk(keys, MAX_KEYS_PER_OPERATION)) {
+    await storage.delete(keysChunk);
+  }
+}
+
+async function listBatches(
+  storage: DurableObjectStorage,
+  kind: DeadLetterKind,
+  limit: number,
+): Promise<DeadLetterBatch[]> {
+  const batches = await storage.list<DeadLetterBatch>({
+    prefix: batchKey("", kind, ""),
+    limit,
+  });
+  return Array.from(batches.values());
+}
+
+/**
+ * Claim the unclaimed batches among the oldest `limit` batches until `leaseMs` from now
+ */
+async function claimBatches(
+  storage: DurableObjectStorage,
+  kind: DeadLetterKind,
+  limit: number,
+  leaseMs: number,
+): Promise<DeadLetterBatch[]> {
+  const batches = await listBatches(storage, kind, limit);
+  const claimKeys = batches.map((batch) => batchKey(CLAIM_PREFIX, kind, batch.id));
+
+  const claims = new Map<string, number>();
+  for (const keys of chunk(claimKeys, MAX_KEYS_PER_OPERATION)) {
+    for (const [key, claimedUntil] of await storage.get<number>(keys)) {
+      claims.set(key, claimedUntil);
+    }
+  }
+
+  const now = Date.now();
+  const claimed = batches.filter(
+    (_, index) => (claims.get(claimKeys[index]) ?? 0) <= now,
+  );
+  const entries = claimed.map(
+    (batch) => [batchKey(CLAIM_PREFIX, kind, batch.id), now + leaseMs] as const,
+  );
+  for (const entriesChunk of chunk(entries, MAX_KEYS_PER_OPERATION)) {
+    await storage.put(Object.fromEntries(entriesChunk));
+  }
+  return claimed;
+}
+
+/**
+ * A Durable Object that stores undeliverable batches, used with `DurableObjectDeadLetterStore`.
+ * Export it from the Tail Worker and bind it as a Durable Object namespace.
+ *
+ * Batches are claimed by a redelivery before they're returned. Claims block other requests
+ * to the object, so concurrent redeliveries can't claim the same batch.
+ */
+export class DeadLetterDurableObject extends DurableObject {
+  async put(batch: DeadLetterBatch): Promise<void> {
+    const entries = splitBatch(batch, MAX_VALUE_BYTES, "Durable Object value").map(
+      (part) => [batchKey("", part.kind, part.id), part] as const,
+    );
+    for (const entriesChunk of chunk(entries, MAX_KEYS_PER_OPERATION)) {
+      await this.ctx.storage.put(Object.fromEntries(entriesChunk));
+    }
+  }
+
+  async list(kind: DeadLetterKind, limit: number): Promise<DeadLetterBatch[]> {
+    return listBatches(this.ctx.storage, kind, limit);
+  }
+
+  async claim(
+    kind: DeadLetterKind,
+    limit: number,
+    leaseMs: number,
+  ): Promise<DeadLetterBatch[]> {
+    return this.ctx.blockConcurrencyWhile(() =>
+      claimBatches(this.ctx.storage, kind, limit, leaseMs),
+    );
+  }
+
+  async release(kind: DeadLetterKind, ids: string[]): Promise<void> {
+    await deleteKeys(
+      this.ctx.storage,
+      ids.map((id) => batchKey(CLAIM_PREFIX, kind, id)),
+    );
+  }
+
+  async delete(kind: DeadLetterKind, ids: string[]): Promise<void> {
+    await deleteKeys(
+      this.ctx.storage,
+      ids.flatMap((id) => [
+        batchKey("", kind, id),
+        batchKey(CLAIM_PREFIX, kind, id),
+      ]),
+    );
+  }
+}
+
+/**
+ * Stores undeliverable batches in a `DeadLetterDurableObject`, which keeps them strongly consistent
+ * and claims them atomically, so concurrent redeliveries don't replay a batch twice
+ * @example
+ * const store = new DurableObjectDeadLetterStore(env.DEAD_LETTERS.get(env.DEAD_LETTERS.idFromName("tail")));
+ */
+export class DurableObjectDeadLetterStore implements DeadLetterStore {
+  #stub: DurableObjectStub<DeadLetterDurableObject>;
+
+  constructor(stub: DurableObjectStub<DeadLetterDurableObject>) {
+    this.#stub = stub;
+  }
+
+  async put(batch: DeadLetterBatch): Promise<void> {
+    await this.#stub.put(batch);
+  }
+
+  async list(kind: DeadLetterKind, limit: number): Promise<DeadLetterBatch[]> {
+    return (await this.#stub.list(kind, limit)) as DeadLetterBatch[];
+  }
+
+  async claim(
+    kind: DeadLetterKind,
+    limit: number,
+    leaseMs: number,
+  ): Promise<DeadLetterBatch[]> {
+    return (await this.#stub.claim(kind, limit, leaseMs)) as DeadLetterBatch[];
+  }
+
+  async release(kind: DeadLetterKind, ids: string[]): Promise<void> {
+    await this.#stub.release(kind, ids);
+  }
+
+  async delete(kind: DeadLetterKind, ids: string[]): Promise<void> {
+    await this.#stub.delete(kind, ids);
+  }
+}
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { DeadLetterHandler } from "./handler";
+import type { DeadLetterBatch, DeadLetterKind, DeadLetterStore } from "./store";
+
+class MemoryDeadLetterStore implements DeadLetterStore {
+  batches: DeadLetterBatch[] = [];
+
+  async put(batch: DeadLetterBatch): Promise<void> {
+    this.batches.push(batch);
+  }
+
+  async list(kind: DeadLetterKind, limit: number): Promise<DeadLetterBatch[]> {
+    return this.batches
+      .filter((batch) => batch.kind === kind)
+      .sort((a, b) => (a.id < b.id ? -1 : 1))
+      .slice(0, limit);
+  }
+
+  async delete(kind: DeadLetterKind, ids: string[]): Promise<void> {
+    this.batches = this.batches.filter(
+      (batch) => batch.kind !== kind || !ids.includes(batch.id),
+    );
+  }
+}
+
+class ClaimingDeadLetterStore extends MemoryDeadLetterStore {
+  claims = new Map<string, number>();
+
+  async claim(kind: DeadLetterKind, limit: number, leaseMs: number): Promise<DeadLetterBatch[]> {
+    const now = Date.now();
+    const claimed = (await this.list(kind, limit)).filter(
+      (batch) => (this.claims.get(batch.id) ?? 0) <= now,
+    );
+    for (const batch of claimed) {
+      this.claims.set(batch.id, now + leaseMs);
+    }
+    return claimed;
+  }
+
+  async release(_kind: DeadLetterKind, ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.claims.delete(id);
+    }
+  }
+
+  async delete(kind: DeadLetterKind, ids: string[]): Promise<void> {
+    await super.delete(kind, ids);
+    await this.release(kind, ids);
+  }
+}
+
+const deadline = () => Date.now() + 10_000;
+
+describe("DeadLetterHandler", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("should store batches as plain data", async () => {
+    const store = new MemoryDeadLetterStore();
+    const handler = new DeadLetterHandler<{ value: number }>("metrics", { store });
+
+    const item = Object.create(
+      {},
+      { value: { get: () => 1, enumerable: true } },
+    );
+    await handler.store("datadog", [item]);
+
+    expect(store.batches).toHaveLength(1);
+    expect(store.batches[0]).toMatchObject({
+      kind: "metrics",
+      sink: "datadog",
+      items: [{ value: 1 }],
+    });
+  });
+
+  it("should log when the store fails", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const handler = new DeadLetterHandler("logs", {
+      store: { put: () => Promise.reject(new Error("KV unavailable")) },
+    });
+
+    await expect(handler.store("0", [{}])).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalledWith(
+      expect.stringContaining("dead-letter store"),
+      expect.any(Error),
+    );
+  });
+
+  it("should redeliver batches in the order they were stored and delete them", async () => {
+    const store = new MemoryDeadLetterStore();
+    const handler = new DeadLetterHandler<number>("metrics", { store });
+    await handler.store("a", [1]);
+    await handler.store("b", [2]);
+    await handler.store("a", [3]);
+    // Stores can return batches in any order
+    store.batches.reverse();
+
+    const delivered: [string, number[]][] = [];
+    await handler.redeliver(async (sink, items) => {
+      delivered.push([sink, items]);
+    }, deadline());
+
+    expect(delivered).toEqual([
+      ["a", [1]],
+      ["b", [2]],
+      ["a", [3]],
+    ]);
+    expect(store.batches).toEqual([]);
+  });
+
+  it("should keep later batches of a sink after a failed redelivery", async () => {
+    const store = new MemoryDeadLetterStore();
+    const handler = new DeadLetterHandler<number>("logs", { store });
+    await handler.store("a", [1]);
+    await handler.store("b", [2]);
+    await handler.store("a", [3]);
+
+    const delivered: number[][] = [];
+    await handler.redeliver(async (sink, items) => {
+      if (sink === "a") {
+        throw new Error("still down");
+      }
+      delivered.push(items);
+    }, deadline());
+
+    expect(delivered).toEqual([[2]]);
+    expect(store.batches.map((batch) => batch.items)).toEqual([[1], [3]]);
+  });
+
+  it("should replay claimed batches once across concurrent redeliveries", async () => {
+    const store = new ClaimingDeadLetterStore();
+    const first = new DeadLetterHandler<number>("metrics", { store });
+    const second = new DeadLetterHandler<number>("metrics", { store });
+    await first.store("a", [1]);
+    await first.store("b", [2]);
+
+    const delivered: number[][] = [];
+    const deliver = async (sink: string, items: number[]) => {
+      await scheduler.wait(1);
+      if (sink === "b") {
+        throw new Error("still down");
+      }
+      delivered.push(items);
+    };
+    await Promise.all([
+      first.redeliver(deliver, deadline()),
+      second.redeliver(deliver, deadline()),
+    ]);
+
+    expect(delivered).toEqual([[1]]);
+    expect(store.batches.map((batch) => batch.items)).toEqual([[2]]);
+    // The failed batch is released for the next redelivery
+    expect(store.claims.size).toBe(0);
+  });
+
+  it("should discard batches older than the max age", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const store = new MemoryDeadLetterStore();
+    const handler = new DeadLetterHandler<number>("metrics", {
+      store,
+      maxAgeMs: 1000,
+    });
+    const deliver = vi.fn().mockResolvedValue(undefined);
+
+    const result = await handler.replay(
+      [
+        { id: "01", kind: "metrics", sink: "0", createdAt: Date.now() - 2000, items: [1] },
+        { id: "02", kind: "metrics", sink: "0", createdAt: Date.now(), items: [2] },
+      ],
+      deliver,
+      deadline(),
+    );
+
+    expect(result).toEqual({ delivered: ["02"], expired: ["01"], failed: [] });
+    expect(deliver).toHaveBeenCalledTimes(1);
+    expect(deliver).toHaveBeenCalledWith("0", [2], expect.objectContaining({ sink: "0" }));
+  });
+
+  it("should stop replaying at the deadline", async () => {
+    const deliver = vi.fn().mockResolvedValue(undefined);
+    const handler = new DeadLetterHandler<number>("metrics", {
+      store: new MemoryDeadLetterStore(),
+    });
+
+    const result = await handler.replay(
+      [{ id: "01", kind: "metrics", sink: "0", createdAt: Date.now(), items: [1] }],
+      deliver,
+      Date.now() - 1,
+    );
+
+    expect(result.failed).toEqual(["01"]);
+    expect(deliver).not.toHaveBeenCalled();
+  });
+
+  it("should redeliver on tail at most once per interval", async () => {
+    vi.useFakeTimers();
+    const handler = new DeadLetterHandler<number>("metrics", {
+      store: new MemoryDeadLetterStore(),
+      redeliveryIntervalMs: 1000,
+    });
+
+    expect(handler.shouldRedeliverOnTail()).toBe(true);
+    await handler.redeliver(async () => {}, deadline());
+    expect(handler.shouldRedeliverOnTail()).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    expect(handler.shouldRedeliverOnTail()).toBe(true);
+  });
+
+  it("should not redeliver on tail from stores that can't be listed", () => {
+    const handler = new DeadLetterHandler("logs", {
+      store: { put: async () => {} },
+    });
+    expect(handler.shouldRedeliverOnTail()).toBe(false);
+  });
+});
@@ -0,0 +1,169 @@
+import { ulidFactory } from "ulid-workers";
+import type {
+  DeadLetterBatch,
+  DeadLetterKind,
+  DeadLetterOptions,
+} from "./store";
+
+const ulid = ulidFactory({ monotonic: true });
+
+const DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_REDELIVERY_INTERVAL_MS = 60 * 1000;
+const DEFAULT_MAX_BATCHES_PER_REDELIVERY = 20;
+// Claims outlive the redelivery deadline, so a delivery still in flight at the deadline can complete
+const CLAIM_MARGIN_MS = 60 * 1000;
+
+/**
+ * Deliver a batch's items to the sink with the given name
+ */
+export type DeadLetterDelivery<T> = (
+  sink: string,
+  items: T[],
+  batch: DeadLetterBatch<T>,
+) => Promise<void>;
+
+export interface ReplayResult {
+  delivered: string[];
+  expired: string[];
+  failed: string[];
+}
+
+/**
+ * Stores the batches a tail failed to deliver, and replays them to their sink.
+ *
+ * Batches are replayed in id order, i.e. the order they were stored in. When a batch fails again,
+ * the later batches for the same sink are kept for the next redelivery so they stay in order.
+ */
+export class DeadLetterHandler<T> {
+  #kind: DeadLetterKind;
+  #options: DeadLetterOptions;
+  #lastRedelivery = 0;
+
+  constructor(kind: DeadLetterKind, options: DeadLetterOptions) {
+    this.#kind = kind;
+    this.#options = options;
+  }
+
+  /**
+   * Persist a batch that couldn't be delivered. Failures to store it are logged.
+   * @param options.aggregates - The items are series aggregates, see `DeadLetterBatch.aggregates`
+   */
+  async store(
+    sink: string,
+    items: T[],
+    options: { aggregates?: boolean } = {},
+  ): Promise<void> {
+    const createdAt = Date.now();
+    const batch: DeadLetterBatch = {
+      id: ulid(createdAt),
+      kind: this.#kind,
+      sink,
+      createdAt,
+      // Round-trip through JSON so every backend stores plain data, trace items can be runtime objects
+      items: JSON.parse(JSON.stringify(items)),
+      ...(options.aggregates ? { aggregates: true } : {}),
+    };
+
+    try {
+      await this.#options.store.put(batch);
+    } catch (error) {
+      console.error(
+        `Failed to store ${items.length} ${this.#kind} item(s) for sink ${sink} in the dead-letter store:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Whether a tail invocation should trigger a redelivery, at most once per redelivery interval
+   */
+  shouldRedeliverOnTail(): boolean {
+    const { redeliverOnTail, redeliveryIntervalMs, store } = this.#options;
+    if (redeliverOnTail === false || !(store.list || store.claim)) {
+      return false;
+    }
+    return (
+      Date.now() - this.#lastRedelivery >=
+      (redeliveryIntervalMs ?? DEFAULT_REDELIVERY_INTERVAL_MS)
+    );
+  }
+
+  /**
+   * Replay the oldest stored batches and remove the delivered and expired ones from the store.
+   * Stores that claim batches release the failed ones, stores that only list them deliver
+   * at least once, since concurrent redeliveries can replay the same batches.
+   */
+  async redeliver(
+    deliver: DeadLetterDelivery<T>,
+    deadline: number,
+  ): Promise<void> {
+    const { store, maxBatchesPerRedelivery } = this.#options;
+    if (!(store.list || store.claim) || !store.delete) {
+      return;
+    }
+    this.#lastRedelivery = Date.now();
+
+    try {
+      const limit = maxBatchesPerRedelivery ?? DEFAULT_MAX_BATCHES_PER_REDELIVERY;
+      const batches = store.claim
+        ? await store.claim(
+            this.#kind,
+            limit,
+            Math.max(deadline - Date.now(), 0) + CLAIM_MARGIN_MS,
+          )
+        : ((await store.list?.(this.#kind, limit)) ?? []);
+      const { delivered, expired, failed } = await this.replay(
+        batches as DeadLetterBatch<T>[],
+        deliver,
+        deadline,
+      );
+      await store.delete(this.#kind, [...delivered, ...expired]);
+      if (failed.length > 0) {
+        await store.release?.(this.#kind, failed);
+      }
+    } catch (error) {
+      console.error(`Failed to redeliver ${this.#kind} dead letters:`, error);
+    }
+  }
+
+  /**
+   * Deliver batches in id order. Batches older than the max age are expired without being delivered.
+   */
+  async replay(
+    batches: DeadLetterBatch<T>[],
+    deliver: DeadLetterDelivery<T>,
+    deadline: number,
+  ): Promise<ReplayResult> {
+    const result: ReplayResult = { delivered: [], expired: [], failed: [] };
+    const blockedSinks = new Set<string>();
+    const oldestCreatedAt =
+      Date.now() - (this.#options.maxAgeMs ?? DEFAULT_MAX_AGE_MS);
+
+    const ordered = [...batches].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+    for (const batch of ordered) {
+      if (batch.createdAt < oldestCreatedAt) {
+        result.expired.push(batch.id);
+        continue;
+      }
+      if (blockedSinks.has(batch.sink) || Date.now() >= deadline) {
+        result.failed.push(batch.id);
+        continue;
+      }
+
+      try {
+        await deliver(batch.sink, batch.items, batch);
+        result.delivered.push(batch.id);
+      } catch {
+        blockedSinks.add(batch.sink);
+        result.failed.push(batch.id);
+      }
+    }
+
+    if (result.expired.length > 0) {
+      console.warn(
+        `Discarded ${result.expired.length} ${this.#kind} dead-letter batch(es) older than the max age`,
+      );
+    }
+    return result;
+  }
+}
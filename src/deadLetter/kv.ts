@@ -0,0 +1,60 @@
+import {
+  batchKey,
+  type DeadLetterBatch,
+  type DeadLetterKind,
+  type DeadLetterStore,
+} from "./store";
+
+export interface KVDeadLetterStoreOptions {
+  /**
+   * Default: "dead-letter/"
+   */
+  prefix?: string;
+  /**
+   * Seconds until stored batches expire, at least 60.
+   * Default: 7 days
+   */
+  expirationTtl?: number;
+}
+
+/**
+ * Stores undeliverable batches in a KV namespace.
+ * Batches are delivered at least once: KV is eventually consistent, so a batch can be listed for a
+ * short time after it was redelivered, and concurrent redeliveries can replay the same batches.
+ */
+export class KVDeadLetterStore implements DeadLetterStore {
+  #namespace: KVNamespace;
+  #prefix: string;
+  #expirationTtl: number;
+
+  constructor(namespace: KVNamespace, options: KVDeadLetterStoreOptions = {}) {
+    this.#namespace = namespace;
+    this.#prefix = options.prefix ?? "dead-letter/";
+    this.#expirationTtl = options.expirationTtl ?? 7 * 24 * 60 * 60;
+  }
+
+  async put(batch: DeadLetterBatch): Promise<void> {
+    await this.#namespace.put(
+      batchKey(this.#prefix, batch.kind, batch.id),
+      JSON.stringify(batch),
+      { expirationTtl: this.#expirationTtl },
+    );
+  }
+
+  async list(kind: DeadLetterKind, limit: number): Promise<DeadLetterBatch[]> {
+    const { keys } = await this.#namespace.list({
+      prefix: batchKey(this.#prefix, kind, ""),
+      limit,
+    });
+    const batches = await Promise.all(
+      keys.map(({ name }) => this.#namespace.get<DeadLetterBatch>(name, "json")),
+    );
+    return batches.filter((batch): batch is DeadLetterBatch => batch !== null);
+  }
+
+  async delete(kind: DeadLetterKind, ids: string[]): Promise<void> {
+    await Promise.all(
+      ids.map((id) => this.#namespace.delete(batchKey(this.#prefix, kind, id))),
+    );
+  }
+}
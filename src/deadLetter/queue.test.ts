@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from "vitest";
+import { QueueDeadLetterStore } from "./queue";
+import type { DeadLetterBatch } from "./store";
+
+function createQueue(): { queue: Queue<DeadLetterBatch>; messages: DeadLetterBatch[] } {
+  const messages: DeadLetterBatch[] = [];
+  const queue = {
+    send: vi.fn(async (body: DeadLetterBatch) => {
+      if (JSON.stringify(body).length > 128 * 1024) {
+        throw new Error("Message exceeds the limit");
+      }
+      messages.push(body);
+    }),
+  };
+  return { queue: queue as unknown as Queue<DeadLetterBatch>, messages };
+}
+
+describe("QueueDeadLetterStore", () => {
+  it("should send a batch as one message", async () => {
+    const { queue, messages } = createQueue();
+    const batch: DeadLetterBatch = {
+      id: "01",
+      kind: "logs",
+      sink: "otel",
+      createdAt: 1000,
+      items: [1, 2],
+    };
+
+    await new QueueDeadLetterStore(queue).put(batch);
+
+    expect(messages).toEqual([batch]);
+  });
+
+  it("should split batches larger than a message", async () => {
+    const { queue, messages } = createQueue();
+    const items = Array.from({ length: 300 }, (_, i) => ({ i, message: "x".repeat(1024) }));
+
+    await new QueueDeadLetterStore(queue).put({
+      id: "01",
+      kind: "logs",
+      sink: "otel",
+      createdAt: 1000,
+      items,
+    });
+
+    expect(messages.length).toBeGreaterThan(1);
+    expect(messages.map((message) => message.id)).toEqual(
+      messages.map((_, index) => `01.${String(index).padStart(4, "0")}`),
+    );
+    expect(messages.flatMap((message) => message.items)).toEqual(items);
+  });
+});
@@ -0,0 +1,25 @@
+import { type DeadLetterBatch, type DeadLetterStore, splitBatch } from "./store";
+
+// Messages are limited to 128 KB, which is measured on the JSON with some headroom
+const MAX_MESSAGE_BYTES = 120 * 1024;
+
+/**
+ * Sends undeliverable batches to a Queue. Queues can't be listed, so batches are redelivered
+ * by a consumer passing the message bodies to `TailExporter.replayDeadLetters`.
+ * Queues don't guarantee delivery order, batches are only ordered within a consumer batch.
+ * Batches larger than a message are split into several messages.
+ */
+export class QueueDeadLetterStore implements DeadLetterStore {
+  #queue: Queue<DeadLetterBatch>;
+
+  constructor(queue: Queue<DeadLetterBatch>) {
+    this.#queue = queue;
+  }
+
+  async put(batch: DeadLetterBatch): Promise<void> {
+    // Parts are sent one by one, since `sendBatch` also limits the total size of the messages
+    for (const part of splitBatch(batch, MAX_MESSAGE_BYTES, "Queue message")) {
+      await this.#queue.send(part, { contentType: "json" });
+    }
+  }
+}
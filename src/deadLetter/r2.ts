@@ -0,0 +1,56 @@
+import {
+  batchKey,
+  type DeadLetterBatch,
+  type DeadLetterKind,
+  type DeadLetterStore,
+} from "./store";
+
+export interface R2DeadLetterStoreOptions {
+  /**
+   * Default: "dead-letter/"
+   */
+  prefix?: string;
+}
+
+/**
+ * Stores undeliverable batches as objects in an R2 bucket.
+ * Batches are delivered at least once, since concurrent redeliveries can replay the same batches.
+ */
+export class R2DeadLetterStore implements DeadLetterStore {
+  #bucket: R2Bucket;
+  #prefix: string;
+
+  constructor(bucket: R2Bucket, options: R2DeadLetterStoreOptions = {}) {
+    this.#bucket = bucket;
+    this.#prefix = options.prefix ?? "dead-letter/";
+  }
+
+  async put(batch: DeadLetterBatch): Promise<void> {
+    await this.#bucket.put(
+      batchKey(this.#prefix, batch.kind, batch.id),
+      JSON.stringify(batch),
+      { httpMetadata: { contentType: "application/json" } },
+    );
+  }
+
+  async list(kind: DeadLetterKind, limit: number): Promise<DeadLetterBatch[]> {
+    const { objects } = await this.#bucket.list({
+      prefix: batchKey(this.#prefix, kind, ""),
+      limit,
+    });
+    const batches = await Promise.all(
+      objects.map(async ({ key }) => {
+        const object = await this.#bucket.get(key);
+        return object ? object.json<DeadLetterBatch>() : null;
+      }),
+    );
+    return batches.filter((batch): batch is DeadLetterBatch => batch !== null);
+  }
+
+  async delete(kind: DeadLetterKind, ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await this.#bucket.delete(ids.map((id) => batchKey(this.#prefix, kind, id)));
+  }
+}
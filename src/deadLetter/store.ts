@@ -0,0 +1,137 @@
+export type DeadLetterKind = "metrics" | "logs";
+
+/**
+ * A batch that couldn't be delivered to a sink
+ */
+export interface DeadLetterBatch<T = unknown> {
+  /**
+   * Sortable by creation time, batches are redelivered in id order
+   */
+  id: string;
+  kind: DeadLetterKind;
+  /**
+   * Name of the sink the batch is redelivered to, see the `name` of sink routes
+   */
+  sink: string;
+  createdAt: number;
+  items: T[];
+  /**
+   * Whether the items are the series aggregates of a sink receiving aggregates,
+   * which are redelivered with its `sendAggregates`
+   */
+  aggregates?: boolean;
+}
+
+/**
+ * Persists undeliverable batches. Stores that can't list their batches, like a Queue producer,
+ * are redelivered by passing the batches to `TailExporter.replayDeadLetters`.
+ */
+export interface DeadLetterStore {
+  put(batch: DeadLetterBatch): Promise<void>;
+  /**
+   * List stored batches of a kind, in id order
+   */
+  list?(kind: DeadLetterKind, limit: number): Promise<DeadLetterBatch[]>;
+  /**
+   * Claim the oldest unclaimed batches of a kind, in id order, so concurrent redeliveries don't
+   * replay the same batches. Claims expire after `leaseMs`, so the batches of a redelivery that
+   * didn't complete are replayed again. Used instead of `list` when implemented.
+   */
+  claim?(
+    kind: DeadLetterKind,
+    limit: number,
+    leaseMs: number,
+  ): Promise<DeadLetterBatch[]>;
+  /**
+   * Release the claim on batches that weren't delivered, so the next redelivery replays them
+   */
+  release?(kind: DeadLetterKind, ids: string[]): Promise<void>;
+  delete?(kind: DeadLetterKind, ids: string[]): Promise<void>;
+}
+
+/**
+ * Only failures the sink's retry policy considers retryable are stored, batches the backend
+ * rejected (e.g. with a 400) would fail again and are dropped.
+ */
+export interface DeadLetterOptions {
+  store: DeadLetterStore;
+  /**
+   * Batches older than this are discarded instead of redelivered, in milliseconds.
+   * Default: 24 hours
+   */
+  maxAgeMs?: number;
+  /**
+   * Redeliver stored batches from later tail invocations, at most once per `redeliveryIntervalMs`.
+   * Disable to only redeliver from a scheduled handler with `TailExporter.redeliver`.
+   * Default: true
+   */
+  redeliverOnTail?: boolean;
+  /**
+   * Min time between redeliveries triggered by tail invocations, in milliseconds.
+   * Default: 60 seconds
+   */
+  redeliveryIntervalMs?: number;
+  /**
+   * Max number of batches read from the store per redelivery.
+   * Default: 20
+   */
+  maxBatchesPerRedelivery?: number;
+}
+
+/**
+ * Storage key of a batch, prefixed so batches of a kind can be listed in id order
+ */
+export function batchKey(prefix: string, kind: DeadLetterKind, id: string): string {
+  return `${prefix}${kind}/${id}`;
+}
+
+const encoder = new TextEncoder();
+
+function byteLength(value: unknown): number {
+  return encoder.encode(JSON.stringify(value)).length;
+}
+
+/**
+ * Split a batch into batches of at most `maxBytes` of JSON. The parts keep the id of the batch
+ * with a suffix, so they're listed in order. Items too large to be stored on their own are dropped.
+ * @param limit - What the size limit applies to, in the log of dropped items
+ */
+export function splitBatch(
+  batch: DeadLetterBatch,
+  maxBytes: number,
+  limit: string,
+): DeadLetterBatch[] {
+  const overhead = byteLength({ ...batch, items: [] });
+  const parts: unknown[][] = [];
+  let items: unknown[] = [];
+  let size = overhead;
+
+  for (const item of batch.items) {
+    const itemSize = byteLength(item) + 1;
+    if (overhead + itemSize > maxBytes) {
+      console.error(
+        `Dropping a ${batch.kind} item of ${itemSize} bytes for sink ${batch.sink}, which exceeds the ${limit} limit`,
+      );
+      continue;
+    }
+    if (size + itemSize > maxBytes) {
+      parts.push(items);
+      items = [];
+      size = overhead;
+    }
+    items.push(item);
+    size += itemSize;
+  }
+  if (items.length > 0) {
+    parts.push(items);
+  }
+
+  if (parts.length === 1) {
+    return [{ ...batch, items: parts[0] }];
+  }
+  return parts.map((items, index) => ({
+    ...batch,
+    id: `${batch.id}.${String(index).padStart(4, "0")}`,
+    items,
+  }));
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import type { TraceItem } from "@cloudflare/workers-types";
+import { collectDefaultMetrics, resolveDefaultMetrics } from "./defaultMetrics";
+import { MetricType } from "./types";
+
+function createTraceItem(overrides: Partial<TraceItem> = {}): TraceItem {
+  return {
+    scriptName: "test-worker",
+    outcome: "ok",
+    cpuTime: 10,
+    wallTime: 20,
+    eventTimestamp: 1000,
+    event: null,
+    logs: [],
+    exceptions: [],
+    diagnosticsChannelEvents: [],
+    truncated: false,
+    ...overrides,
+  } as unknown as TraceItem;
+}
+
+describe("default metrics", () => {
+  const globalTags = { scriptName: "test-worker" };
+
+  it("should only record cpu time, wall time and invocations by default", () => {
+    const metrics = collectDefaultMetrics(
+      createTraceItem({
+        outcome: "exceededCpu",
+        logs: [{ level: "log", message: ["a"], timestamp: 1 }],
+        event: {
+          request: { url: "https://example.com", method: "GET", headers: {} },
+          response: { status: 200 },
+        },
+      } as Partial<TraceItem>),
+      globalTags,
+      resolveDefaultMetrics(),
+    );
+
+    expect(metrics).toEqual([
+      {
+        type: MetricType.HISTOGRAM,
+        name: "worker.cpu_time",
+        value: 10,
+        unit: "ms",
+        tags: globalTags,
+        timestamp: 1000,
+        options: {
+          aggregates: ["max", "min", "avg"],
+          percentiles: [0.5, 0.75, 0.9, 0.95, 0.99],
+        },
+      },
+      expect.objectContaining({ name: "worker.wall_time", value: 20 }),
+      expect.objectContaining({ name: "worker.invocation", value: 1 }),
+    ]);
+  });
+
+  it("should rename metrics, add tags and override histogram options", () => {
+    const metrics = collectDefaultMetrics(
+      createTraceItem(),
+      globalTags,
+      resolveDefaultMetrics({
+        cpuTime: {
+          name: "cpu",
+          tags: { team: "edge" },
+          histogramOptions: { percentiles: [0.99] },
+        },
+        wallTime: false,
+        workersInvocation: { enabled: false },
+      }),
+    );
+
+    expect(metrics).toEqual([
+      expect.objectContaining({
+        name: "cpu",
+        unit: "ms",
+        tags: { scriptName: "test-worker", team: "edge" },
+        options: { aggregates: ["max", "min", "avg"], percentiles: [0.99] },
+      }),
+    ]);
+  });
+
+  it("should count logs by level and exceptions by name", () => {
+    const metrics = collectDefaultMetrics(
+      createTraceItem({
+        outcome: "exception",
+        logs: [
+          { level: "log", message: ["a"], timestamp: 1 },
+          { level: "error", message: ["b"], timestamp: 2 },
+          { level: "log", message: ["c"], timestamp: 3 },
+        ],
+        exceptions: [
+          { name: "TypeError", message: "a", timestamp: 1 },
+          { name: "TypeError", message: "b", timestamp: 2 },
+        ],
+      } as Partial<TraceItem>),
+      globalTags,
+      resolveDefaultMetrics({
+        cpuTime: false,
+        wallTime: false,
+        workersInvocation: false,
+        logs: true,
+        exceptions: { tags: {} },
+      }),
+    );
+
+    expect(metrics.map(({ name, value, tags }) => ({ name, value, tags }))).toEqual([
+      { name: "worker.logs", value: 2, tags: { ...globalTags, level: "log" } },
+      { name: "worker.logs", value: 1, tags: { ...globalTags, level: "error" } },
+      {
+        name: "worker.exceptions",
+        value: 2,
+        tags: { ...globalTags, exception: "TypeError" },
+      },
+    ]);
+  });
+
+  it("should count outcomes and fetch response statuses", () => {
+    const resolved = resolveDefaultMetrics({
+      cpuTime: false,
+      wallTime: false,
+      workersInvocation: false,
+      exceededCpu: true,
+      responseStatus: true,
+    });
+
+    const exceeded = collectDefaultMetrics(
+      createTraceItem({ outcome: "exceededCpu" }),
+      globalTags,
+      resolved,
+    );
+    const fetched = collectDefaultMetrics(
+      createTraceItem({
+        event: {
+          request: { url: "https://example.com", method: "GET", headers: {} },
+          response: { status: 404 },
+        },
+      } as Partial<TraceItem>),
+      globalTags,
+      resolved,
+    );
+
+    expect(exceeded.map((m) => m.name)).toEqual(["worker.exceeded_cpu"]);
+    expect(fetched).toEqual([
+      expect.objectContaining({
+        name: "worker.response",
+        value: 1,
+        tags: { ...globalTags, status_code: 404, status_class: "4xx" },
+      }),
+    ]);
+  });
+});
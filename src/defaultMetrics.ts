@@ -0,0 +1,260 @@
+import type { TraceItem } from "@cloudflare/workers-types";
+import {
+  type HistogramOptions,
+  MetricType,
+  type Tags,
+  type TimestampedMetricPayload,
+} from "./types";
+
+export interface DefaultMetricOptions {
+  /**
+   * Default: true, passing an options object enables an opt-in metric
+   */
+  enabled?: boolean;
+  /**
+   * Rename the metric
+   */
+  name?: string;
+  /**
+   * Tags added to the metric, on top of the global tags
+   */
+  tags?: Tags;
+}
+
+export interface DefaultHistogramMetricOptions extends DefaultMetricOptions {
+  /**
+   * Unit, description, percentiles and aggregates of the histogram.
+   * Default: unit `ms`, p50, p75, p90, p95 and p99 percentiles with max, min and avg aggregates
+   */
+  histogramOptions?: Omit<HistogramOptions, "sampleRate">;
+}
+
+/**
+ * Each default metric can be enabled with `true`, disabled with `false`, or configured with an options object.
+ * `cpuTime`, `wallTime` and `workersInvocation` are enabled by default, the other metrics are opt-in.
+ */
+export interface DefaultMetricsOptions {
+  /**
+   * `worker.cpu_time` histogram of the CPU time of each invocation
+   */
+  cpuTime?: boolean | DefaultHistogramMetricOptions;
+  /**
+   * `worker.wall_time` histogram of the wall time of each invocation
+   */
+  wallTime?: boolean | DefaultHistogramMetricOptions;
+  /**
+   * `worker.invocation` count of invocations
+   */
+  workersInvocation?: boolean | DefaultMetricOptions;
+  /**
+   * `worker.logs` count of log lines, tagged with `level`. Opt-in
+   */
+  logs?: boolean | DefaultMetricOptions;
+  /**
+   * `worker.exceptions` count of uncaught exceptions, tagged with `exception`. Opt-in
+   */
+  exceptions?: boolean | DefaultMetricOptions;
+  /**
+   * `worker.exceeded_cpu` count of invocations that exceeded their CPU limit. Opt-in
+   */
+  exceededCpu?: boolean | DefaultMetricOptions;
+  /**
+   * `worker.exceeded_memory` count of invocations that exceeded their memory limit. Opt-in
+   */
+  exceededMemory?: boolean | DefaultMetricOptions;
+  /**
+   * `worker.canceled` count of canceled invocations. Opt-in
+   */
+  canceled?: boolean | DefaultMetricOptions;
+  /**
+   * `worker.response` count of fetch responses, tagged with `status_code` and `status_class`. Opt-in
+   */
+  responseStatus?: boolean | DefaultMetricOptions;
+}
+
+interface ResolvedDefaultMetric {
+  enabled: boolean;
+  name: string;
+  tags: Tags;
+}
+
+interface ResolvedDefaultHistogramMetric extends ResolvedDefaultMetric {
+  histogramOptions: Omit<HistogramOptions, "sampleRate">;
+}
+
+export interface ResolvedDefaultMetrics {
+  cpuTime: ResolvedDefaultHistogramMetric;
+  wallTime: ResolvedDefaultHistogramMetric;
+  workersInvocation: ResolvedDefaultMetric;
+  logs: ResolvedDefaultMetric;
+  exceptions: ResolvedDefaultMetric;
+  exceededCpu: ResolvedDefaultMetric;
+  exceededMemory: ResolvedDefaultMetric;
+  canceled: ResolvedDefaultMetric;
+  responseStatus: ResolvedDefaultMetric;
+}
+
+const DEFAULT_HISTOGRAM_OPTIONS: Omit<HistogramOptions, "sampleRate"> = {
+  unit: "ms",
+  aggregates: ["max", "min", "avg"],
+  percentiles: [0.5, 0.75, 0.9, 0.95, 0.99],
+};
+
+function resolveMetric(
+  defaultName: string,
+  options: boolean | DefaultMetricOptions | undefined,
+  enabledByDefault = true,
+): ResolvedDefaultMetric {
+  const config = typeof options === "object" ? options : {};
+  return {
+    enabled: (options ?? enabledByDefault) !== false && config.enabled !== false,
+    name: config.name ?? defaultName,
+    tags: config.tags ?? {},
+  };
+}
+
+function resolveHistogramMetric(
+  defaultName: string,
+  options: boolean | DefaultHistogramMetricOptions | undefined,
+): ResolvedDefaultHistogramMetric {
+  const config = typeof options === "object" ? options : {};
+  return {
+    ...resolveMetric(defaultName, options),
+    histogramOptions: { ...DEFAULT_HISTOGRAM_OPTIONS, ...config.histogramOptions },
+  };
+}
+
+/**
+ * Apply the defaults to the default metrics options.
+ * The CPU time, wall time and invocation metrics are enabled unless disabled, the others must be enabled.
+ */
+export function resolveDefaultMetrics(
+  options: DefaultMetricsOptions = {},
+): ResolvedDefaultMetrics {
+  return {
+    cpuTime: resolveHistogramMetric("worker.cpu_time", options.cpuTime),
+    wallTime: resolveHistogramMetric("worker.wall_time", options.wallTime),
+    workersInvocation: resolveMetric(
+      "worker.invocation",
+      options.workersInvocation,
+    ),
+    logs: resolveMetric("worker.logs", options.logs, false),
+    exceptions: resolveMetric("worker.exceptions", options.exceptions, false),
+    exceededCpu: resolveMetric(
+      "worker.exceeded_cpu",
+      options.exceededCpu,
+      false,
+    ),
+    exceededMemory: resolveMetric(
+      "worker.exceeded_memory",
+      options.exceededMemory,
+      false,
+    ),
+    canceled: resolveMetric("worker.canceled", options.canceled, false),
+    responseStatus: resolveMetric(
+      "worker.response",
+      options.responseStatus,
+      false,
+    ),
+  };
+}
+
+const OUTCOME_METRICS = {
+  exceededCpu: "exceededCpu",
+  exceededMemory: "exceededMemory",
+  canceled: "canceled",
+} as const;
+
+/**
+ * Derive the enabled default metrics from a trace item
+ */
+export function collectDefaultMetrics(
+  traceItem: TraceItem,
+  globalTags: Tags,
+  defaultMetrics: ResolvedDefaultMetrics,
+): TimestampedMetricPayload[] {
+  const timestamp = traceItem.eventTimestamp || Date.now();
+  const metrics: TimestampedMetricPayload[] = [];
+
+  const addCount = (metric: ResolvedDefaultMetric, value = 1, tags: Tags = {}) => {
+    metrics.push({
+      type: MetricType.COUNT,
+      name: metric.name,
+      value,
+      tags: { ...globalTags, ...metric.tags, ...tags },
+      timestamp,
+    });
+  };
+
+  const addHistogram = (metric: ResolvedDefaultHistogramMetric, value: number) => {
+    const { unit, description, ...options } = metric.histogramOptions;
+    metrics.push({
+      type: MetricType.HISTOGRAM,
+      name: metric.name,
+      value,
+      tags: { ...globalTags, ...metric.tags },
+      timestamp,
+      options,
+      ...(unit !== undefined ? { unit } : {}),
+      ...(description !== undefined ? { description } : {}),
+    });
+  };
+
+  if (defaultMetrics.cpuTime.enabled) {
+    addHistogram(defaultMetrics.cpuTime, traceItem.cpuTime);
+  }
+
+  if (defaultMetrics.wallTime.enabled) {
+    addHistogram(defaultMetrics.wallTime, traceItem.wallTime);
+  }
+
+  if (defaultMetrics.workersInvocation.enabled) {
+    addCount(defaultMetrics.workersInvocation);
+  }
+
+  if (defaultMetrics.logs.enabled) {
+    const logsByLevel = new Map<string, number>();
+    for (const log of traceItem.logs) {
+      logsByLevel.set(log.level, (logsByLevel.get(log.level) ?? 0) + 1);
+    }
+    for (const [level, count] of logsByLevel) {
+      addCount(defaultMetrics.logs, count, { level });
+    }
+  }
+
+  if (defaultMetrics.exceptions.enabled) {
+    const exceptionsByName = new Map<string, number>();
+    for (const exception of traceItem.exceptions) {
+      exceptionsByName.set(
+        exception.name,
+        (exceptionsByName.get(exception.name) ?? 0) + 1,
+      );
+    }
+    for (const [exception, count] of exceptionsByName) {
+      addCount(defaultMetrics.exceptions, count, { exception });
+    }
+  }
+
+  for (const [key, outcome] of Object.entries(OUTCOME_METRICS)) {
+    const metric = defaultMetrics[key as keyof typeof OUTCOME_METRICS];
+    if (metric.enabled && traceItem.outcome === outcome) {
+      addCount(metric);
+    }
+  }
+
+  const event = traceItem.event;
+  if (
+    defaultMetrics.responseStatus.enabled &&
+    event &&
+    "response" in event &&
+    event.response
+  ) {
+    const status = event.response.status;
+    addCount(defaultMetrics.responseStatus, 1, {
+      status_code: status,
+      status_class: `${Math.floor(status / 100)}xx`,
+    });
+  }
+
+  return metrics;
+}
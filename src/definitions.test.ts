@@ -0,0 +1,200 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  beforeAll,
+  afterAll,
+} from "vitest";
+import { subscribe, unsubscribe } from "node:diagnostics_channel";
+import {
+  defineCounter,
+  defineGauge,
+  defineHistogram,
+  MetricRegistry,
+} from "./definitions";
+import { METRICS_CHANNEL_NAME, type MetricPayload, MetricType } from "./types";
+
+describe("metric definitions", () => {
+  let registry: MetricRegistry;
+  let receivedMessages: MetricPayload[] = [];
+  const subscriber = (message: unknown) => {
+    receivedMessages.push(message as MetricPayload);
+  };
+
+  beforeAll(() => {
+    subscribe(METRICS_CHANNEL_NAME, subscriber);
+  });
+
+  beforeEach(() => {
+    registry = new MetricRegistry();
+    receivedMessages = [];
+  });
+
+  afterAll(() => {
+    unsubscribe(METRICS_CHANNEL_NAME, subscriber);
+  });
+
+  it("should record counters with the defined name and metadata", () => {
+    const requests = defineCounter({
+      name: "http.requests",
+      tagKeys: ["route", "method"],
+      description: "Incoming requests",
+      registry,
+    });
+
+    requests.add(1, { route: "/users", method: "GET" });
+    // @ts-expect-error - "rout" is not a defined tag key
+    requests.add(1, { rout: "/users" });
+
+    expect(receivedMessages[0]).toEqual({
+      type: MetricType.COUNT,
+      name: "http.requests",
+      value: 1,
+      tags: { route: "/users", method: "GET" },
+      description: "Incoming requests",
+    });
+  });
+
+  it("should record gauges", () => {
+    const connections = defineGauge({
+      name: "ws.connections",
+      tagKeys: ["room"],
+      registry,
+    });
+
+    connections.record(5, { room: "lobby" });
+
+    expect(receivedMessages[0]).toEqual({
+      type: MetricType.GAUGE,
+      name: "ws.connections",
+      value: 5,
+      tags: { room: "lobby" },
+    });
+  });
+
+  it("should record histograms with the defined options", () => {
+    const latency = defineHistogram({
+      name: "db.latency",
+      tagKeys: ["table"],
+      unit: "ms",
+      options: { percentiles: [0.5, 0.99] },
+      registry,
+    });
+
+    latency.record(12, { table: "users" });
+    latency.startTimer({ table: "users" })();
+
+    expect(receivedMessages[0]).toEqual({
+      type: MetricType.HISTOGRAM,
+      name: "db.latency",
+      value: 12,
+      tags: { table: "users" },
+      options: { percentiles: [0.5, 0.99] },
+      unit: "ms",
+    });
+    expect(receivedMessages[1]).toMatchObject({
+      name: "db.latency",
+      tags: { table: "users" },
+      unit: "ms",
+    });
+  });
+
+  it("should reject metrics without tag keys being recorded with tags", () => {
+    const errors = defineCounter({ name: "errors", registry });
+
+    errors.add();
+    // @ts-expect-error - no tag keys are defined
+    errors.add(1, { route: "/" });
+
+    expect(receivedMessages[0].tags).toEqual({});
+  });
+
+  describe("MetricRegistry", () => {
+    it("should list registered definitions", () => {
+      defineCounter({ name: "a", tagKeys: ["x"], registry });
+      defineHistogram({ name: "b", registry });
+
+      expect(registry.getDefinitions().map((def) => def.name)).toEqual([
+        "a",
+        "b",
+      ]);
+      expect(registry.get("a")).toEqual({
+        type: MetricType.COUNT,
+        name: "a",
+        tagKeys: ["x"],
+      });
+    });
+
+    it("should throw when a name is redefined with another type", () => {
+      defineCounter({ name: "a", registry });
+
+      expect(() => defineGauge({ name: "a", registry })).toThrow(
+        'Metric "a" is already defined as a COUNT',
+      );
+    });
+
+    it("should validate payloads against their definition", () => {
+      defineCounter({ name: "http.requests", tagKeys: ["route"], registry });
+
+      expect(
+        registry.validate({
+          type: MetricType.COUNT,
+          name: "http.requests",
+          value: 1,
+          tags: { route: "/" },
+        }),
+      ).toBeUndefined();
+      expect(
+        registry.validate({
+          type: MetricType.COUNT,
+          name: "http.request",
+          value: 1,
+          tags: {},
+        }),
+      ).toBe('Metric "http.request" is not defined');
+      expect(
+        registry.validate({
+          type: MetricType.GAUGE,
+          name: "http.requests",
+          value: 1,
+          tags: {},
+        }),
+      ).toBe(
+        'Metric "http.requests" is defined as a COUNT but was recorded as a GAUGE',
+      );
+      expect(
+        registry.validate({
+          type: MetricType.COUNT,
+          name: "http.requests",
+          value: 1,
+          tags: { route: "/", rout: "/" },
+        }),
+      ).toBe(
+        'Metric "http.requests" was recorded with undefined tag keys: rout',
+      );
+    });
+
+    it("should report why a payload is invalid and accept built-in metrics", () => {
+      defineCounter({ name: "http.requests", registry });
+
+      expect(
+        registry.check({
+          type: MetricType.COUNT,
+          name: "http.requests",
+          value: 1,
+          tags: { tenant: "a" },
+        }),
+      ).toMatchObject({ reason: "tag_keys" });
+      expect(
+        registry.check({
+          type: MetricType.HISTOGRAM,
+          name: "kv.operation.duration",
+          value: 5,
+          tags: { binding: "CACHE", operation: "get" },
+          options: {},
+        }),
+      ).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { count, gauge, histogram, startTimer } from "./metrics";
+import { BINDING_METRIC_NAMES } from "./instrumentation/bindings";
+import { DURABLE_OBJECT_METRICS } from "./instrumentation/durableObject";
+import { FETCH_METRICS } from "./instrumentation/fetch";
+import { HANDLER_METRICS } from "./instrumentation/handler";
+import {
+  type HistogramOptions,
+  type MetricPayload,
+  MetricType,
+  type Tags,
+} from "./types";
+
+/**
+ * Tags restricted to the keys declared in a metric definition
+ */
+export type DefinedTags<TTagKey extends string> = [TTagKey] extends [never]
+  ? Record<string, never>
+  : { [Key in TTagKey]?: Tags[string] };
+
+export interface MetricDefinition<TTagKey extends string = string> {
+  type: MetricType.COUNT | MetricType.GAUGE | MetricType.HISTOGRAM;
+  name: string;
+  /**
+   * Tag keys the metric may be recorded with
+   */
+  tagKeys: readonly TTagKey[];
+  unit?: string;
+  description?: string;
+  histogramOptions?: HistogramOptions;
+}
+
+export interface DefineMetricOptions<TTagKey extends string> {
+  name: string;
+  tagKeys?: readonly TTagKey[];
+  unit?: string;
+  description?: string;
+  /**
+   * Registry the definition is added to. Default: `defaultMetricRegistry`
+   */
+  registry?: MetricRegistry;
+}
+
+export interface DefineHistogramOptions<TTagKey extends string>
+  extends DefineMetricOptions<TTagKey> {
+  options?: Omit<HistogramOptions, "unit" | "description">;
+}
+
+export interface CounterRecorder<TTagKey extends string> {
+  readonly definition: MetricDefinition<TTagKey>;
+  add(value?: number, tags?: DefinedTags<TTagKey>): void;
+}
+
+export interface GaugeRecorder<TTagKey extends string> {
+  readonly definition: MetricDefinition<TTagKey>;
+  record(value: number, tags?: DefinedTags<TTagKey>): void;
+}
+
+export interface HistogramRecorder<TTagKey extends string> {
+  readonly definition: MetricDefinition<TTagKey>;
+  record(value: number, tags?: DefinedTags<TTagKey>): void;
+  startTimer(
+    tags?: DefinedTags<TTagKey>,
+  ): (stopTags?: DefinedTags<TTagKey>) => number;
+}
+
+/**
+ * Counts the metrics a registry dropped, tagged with the dropped `metric` and the `reason`
+ */
+export const REGISTRY_DROPPED_METRIC = "metrics.registry.dropped";
+
+export interface RegistryViolation {
+  reason: "undefined" | "type" | "tag_keys";
+  message: string;
+}
+
+/**
+ * Metrics recorded by the library's instrumentation. Registries don't validate them,
+ * since their tags depend on the instrumentation options.
+ */
+const BUILTIN_METRIC_NAMES = new Set<string>([
+  ...Object.values(HANDLER_METRICS),
+  ...Object.values(FETCH_METRICS),
+  ...BINDING_METRIC_NAMES,
+  ...Object.values(DURABLE_OBJECT_METRICS),
+]);
+
+/**
+ * A collection of metric definitions. Share the module that defines your metrics
+ * between the producing worker and the Tail Worker, and pass the registry to
+ * `MetricTailOptions.registry` to validate incoming payloads against it.
+ */
+export class MetricRegistry {
+  #definitions = new Map<string, MetricDefinition>();
+
+  register(definition: MetricDefinition): void {
+    const existing = this.#definitions.get(definition.name);
+    if (existing && existing.type !== definition.type) {
+      throw new Error(
+        `Metric "${definition.name}" is already defined as a ${existing.type}`,
+      );
+    }
+    this.#definitions.set(definition.name, definition);
+  }
+
+  get(name: string): MetricDefinition | undefined {
+    return this.#definitions.get(name);
+  }
+
+  getDefinitions(): MetricDefinition[] {
+    return Array.from(this.#definitions.values());
+  }
+
+  /**
+   * Check a payload against its definition
+   * @returns A description of the problem, or undefined if the payload is valid
+   */
+  validate(payload: MetricPayload): string | undefined {
+    return this.check(payload)?.message;
+  }
+
+  /**
+   * Check a payload against its definition. Built-in instrumentation metrics are always valid.
+   * Tags set with `withTags` or a client's `defaultTags` are part of the payload, so their keys must be defined too.
+   * @returns The problem, or undefined if the payload is valid
+   */
+  check(payload: MetricPayload): RegistryViolation | undefined {
+    const definition = this.#definitions.get(payload.name);
+    if (!definition) {
+      return BUILTIN_METRIC_NAMES.has(payload.name)
+        ? undefined
+        : { reason: "undefined", message: `Metric "${payload.name}" is not defined` };
+    }
+
+    if (definition.type !== payload.type) {
+      return {
+        reason: "type",
+        message: `Metric "${payload.name}" is defined as a ${definition.type} but was recorded as a ${payload.type}`,
+      };
+    }
+
+    const unknownKeys = Object.keys(payload.tags).filter(
+      (key) => !definition.tagKeys.includes(key),
+    );
+    if (unknownKeys.length > 0) {
+      return {
+        reason: "tag_keys",
+        message: `Metric "${payload.name}" was recorded with undefined tag keys: ${unknownKeys.join(", ")}`,
+      };
+    }
+  }
+}
+
+/**
+ * The metric counting a payload dropped by a registry, see `REGISTRY_DROPPED_METRIC`
+ */
+export function registryDroppedMetric(
+  payload: MetricPayload,
+  violation: RegistryViolation,
+): MetricPayload {
+  return {
+    type: MetricType.COUNT,
+    name: REGISTRY_DROPPED_METRIC,
+    value: 1,
+    tags: { metric: payload.name, reason: violation.reason },
+  };
+}
+
+/**
+ * The registry definitions are added to when no registry is passed
+ */
+export const defaultMetricRegistry = new MetricRegistry();
+
+function registerDefinition<TTagKey extends string>(
+  type: MetricDefinition["type"],
+  options: DefineMetricOptions<TTagKey>,
+  histogramOptions?: HistogramOptions,
+): MetricDefinition<TTagKey> {
+  const definition: MetricDefinition<TTagKey> = {
+    type,
+    name: options.name,
+    tagKeys: options.tagKeys ?? [],
+    ...(options.unit !== undefined ? { unit: options.unit } : {}),
+    ...(options.description !== undefined
+      ? { description: options.description }
+      : {}),
+    ...(histogramOptions ? { histogramOptions } : {}),
+  };
+
+  (options.registry ?? defaultMetricRegistry).register(definition);
+  return definition;
+}
+
+/**
+ * Define a count metric with a fixed name and set of tag keys
+ * @example
+ * const requests = defineCounter({ name: "http.requests", tagKeys: ["route", "method"] });
+ * requests.add(1, { route: "/users", method: "GET" });
+ */
+export function defineCounter<const TTagKey extends string = never>(
+  options: DefineMetricOptions<TTagKey>,
+): CounterRecorder<TTagKey> {
+  const definition = registerDefinition(MetricType.COUNT, options);
+  const { unit, description } = definition;
+
+  return {
+    definition,
+    add(value = 1, tags = {}) {
+      count(definition.name, value, tags as Tags, { unit, description });
+    },
+  };
+}
+
+/**
+ * Define a gauge metric with a fixed name and set of tag keys
+ */
+export function defineGauge<const TTagKey extends string = never>(
+  options: DefineMetricOptions<TTagKey>,
+): GaugeRecorder<TTagKey> {
+  const definition = registerDefinition(MetricType.GAUGE, options);
+  const { unit, description } = definition;
+
+  return {
+    definition,
+    record(value, tags = {}) {
+      gauge(definition.name, value, tags as Tags, { unit, description });
+    },
+  };
+}
+
+/**
+ * Define a histogram metric with a fixed name, set of tag keys and histogram options
+ */
+export function defineHistogram<const TTagKey extends string = never>(
+  options: DefineHistogramOptions<TTagKey>,
+): HistogramRecorder<TTagKey> {
+  const definition = registerDefinition(
+    MetricType.HISTOGRAM,
+    options,
+    options.options ?? {},
+  );
+  const histogramOptions: HistogramOptions = {
+    ...definition.histogramOptions,
+    ...(definition.unit !== undefined ? { unit: definition.unit } : {}),
+    ...(definition.description !== undefined
+      ? { description: definition.description }
+      : {}),
+  };
+
+  return {
+    definition,
+    record(value, tags = {}) {
+      histogram(definition.name, value, histogramOptions, tags as Tags);
+    },
+    startTimer(tags = {}) {
+      const stop = startTimer(definition.name, histogramOptions, tags as Tags);
+      return (stopTags = {}) => stop(stopTags as Tags);
+    },
+  };
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { DirectExporter } from "./directExporter";
+import { metrics } from "./index";
+import type { MetricSink } from "./sinks/sink";
+import { type ExportedMetricPayload, MetricType } from "./types";
+
+class TestSink implements MetricSink {
+  receivedMetrics: ExportedMetricPayload[] = [];
+
+  async sendMetrics(metrics: ExportedMetricPayload[]): Promise<void> {
+    this.receivedMetrics.push(...metrics);
+  }
+}
+
+class MockExecutionContext implements ExecutionContext {
+  #promises: Promise<unknown>[] = [];
+  props = {};
+
+  waitUntil(promise: Promise<unknown>): void {
+    this.#promises.push(promise);
+  }
+
+  passThroughOnException(): void {}
+
+  async waitForAll(): Promise<void> {
+    await Promise.allSettled(this.#promises);
+  }
+}
+
+describe("DirectExporter", () => {
+  let exporter: DirectExporter | undefined;
+
+  afterEach(() => {
+    exporter?.close();
+  });
+
+  it("should aggregate metrics from a fetch handler and flush them at the end of the request", async () => {
+    const testSink = new TestSink();
+    exporter = new DirectExporter({
+      metrics: { sinks: [testSink] },
+      globalTags: { scriptName: "test-worker" },
+    });
+
+    const handler = exporter.instrument({
+      async fetch() {
+        metrics.count("test.counter", 1, { route: "/" });
+        metrics.count("test.counter", 2, { route: "/" });
+        return new Response("ok");
+      },
+    });
+
+    const ctx = new MockExecutionContext();
+    const response = await handler.fetch?.(
+      new Request("https://example.com/"),
+      {},
+      ctx,
+    );
+    await ctx.waitForAll();
+
+    expect(await response?.text()).toBe("ok");
+    expect(testSink.receivedMetrics).toContainEqual(
+      expect.objectContaining({
+        type: MetricType.COUNT,
+        name: "test.counter",
+        value: 3,
+        tags: { scriptName: "test-worker", route: "/" },
+      }),
+    );
+    expect(testSink.receivedMetrics).toContainEqual(
+      expect.objectContaining({
+        type: MetricType.COUNT,
+        name: "worker.invocation",
+        value: 1,
+        tags: { scriptName: "test-worker", outcome: "ok", trigger: "fetch" },
+      }),
+    );
+  });
+
+  it("should record failed invocations and rethrow", async () => {
+    const testSink = new TestSink();
+    exporter = new DirectExporter({ metrics: { sinks: [testSink] } });
+
+    const handler = exporter.instrument({
+      async scheduled() {
+        metrics.gauge("test.gauge", 5);
+        throw new Error("boom");
+      },
+    });
+
+    const ctx = new MockExecutionContext();
+    await expect(
+      handler.scheduled?.({} as ScheduledController, {}, ctx),
+    ).rejects.toThrow("boom");
+    await ctx.waitForAll();
+
+    expect(testSink.receivedMetrics.map((m) => m.name).sort()).toEqual([
+      "test.gauge",
+      "worker.invocation",
+    ]);
+    expect(
+      testSink.receivedMetrics.find((m) => m.name === "worker.invocation")
+        ?.tags,
+    ).toEqual({ outcome: "exception", trigger: "scheduled" });
+  });
+
+  it("should respect the workersInvocation default metric option", async () => {
+    const testSink = new TestSink();
+    exporter = new DirectExporter({
+      metrics: {
+        sinks: [testSink],
+        defaultMetrics: { workersInvocation: false },
+      },
+    });
+
+    const handler = exporter.instrument({
+      async fetch() {
+        return new Response("ok");
+      },
+    });
+
+    const ctx = new MockExecutionContext();
+    await handler.fetch?.(new Request("https://example.com/"), {}, ctx);
+    await ctx.waitForAll();
+
+    expect(testSink.receivedMetrics).toHaveLength(0);
+  });
+
+  it("should stop receiving metrics once closed", async () => {
+    const testSink = new TestSink();
+    exporter = new DirectExporter({
+      metrics: { sinks: [testSink], defaultMetrics: { workersInvocation: false } },
+    });
+    exporter.close();
+
+    metrics.count("test.counter");
+    const ctx = new MockExecutionContext();
+    exporter.flush(ctx);
+    await ctx.waitForAll();
+
+    expect(testSink.receivedMetrics).toHaveLength(0);
+  });
+
+  it("should flush an open bucket once it closes", async () => {
+    vi.useFakeTimers({ now: 1_000_003_000 });
+    const wait = vi
+      .spyOn(scheduler, "wait")
+      .mockImplementation(async (delay: number) => {
+        vi.advanceTimersByTime(delay);
+      });
+    const testSink = new TestSink();
+    exporter = new DirectExporter({
+      metrics: {
+        sinks: [testSink],
+        bucketing: { intervalSeconds: 10, allowedLatenessSeconds: 5 },
+        defaultMetrics: { workersInvocation: false },
+      },
+    });
+
+    metrics.count("test.counter");
+    const ctx = new MockExecutionContext();
+    exporter.flush(ctx);
+    await ctx.waitForAll();
+
+    expect(wait.mock.calls.map(([delay]) => delay)).toEqual([12_000]);
+    expect(testSink.receivedMetrics).toEqual([
+      expect.objectContaining({ name: "test.counter", timestamp: 1_000_000_000 }),
+    ]);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+});
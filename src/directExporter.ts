@@ -0,0 +1,206 @@
+import { subscribe, unsubscribe } from "node:diagnostics_channel";
+import { type MetricRegistry, registryDroppedMetric } from "./definitions";
+import { type ResolvedDefaultMetrics, resolveDefaultMetrics } from "./defaultMetrics";
+import { MetricsDb } from "./metricsDb";
+import type { MetricTailOptions } from "./metricsTail";
+import type { MetricSink } from "./sinks/sink";
+import {
+  METRICS_CHANNEL_NAME,
+  type MetricPayload,
+  MetricType,
+  type Tags,
+  type TimestampedMetricPayload,
+} from "./types";
+import type { TraceItemTrigger } from "./utils/cloudflare";
+import { TagNormalizer } from "./utils/tags";
+import type { QuantileSketchFactory } from "./utils/sketch";
+import { Relabeler } from "./relabel";
+import type { MetricRoute } from "./routing";
+import { type RetryPolicy, WAIT_UNTIL_BUDGET_MS } from "./retry";
+import { deliverMetrics } from "./metricsDelivery";
+
+export interface DirectExporterOptions {
+  /**
+   * The same options a `TailExporter` takes for metrics.
+   * Metrics are flushed at the end of every invocation, so `maxBufferSize` and
+   * `maxBufferDuration` are ignored. Only the `workersInvocation` default metric
+   * is available in-process, CPU and wall time require a Tail Worker.
+   * `deadLetter` isn't supported, failed batches are dropped after retries.
+   * With `bucketing`, buckets that are still open are exported once they close when that's
+   * within the `waitUntil` budget, and by a later invocation otherwise.
+   */
+  metrics: MetricTailOptions;
+  /**
+   * Tags added to every metric, e.g. `{ scriptName: "my-worker" }`.
+   * A Tail Worker reads these from the trace item, but they aren't available in-process.
+   */
+  globalTags?: Tags;
+}
+
+type HandlerMethod = (...args: unknown[]) => unknown;
+
+const INSTRUMENTED_HANDLERS: Partial<Record<string, TraceItemTrigger>> = {
+  fetch: "fetch",
+  scheduled: "scheduled",
+  queue: "queue",
+  email: "email",
+};
+
+/**
+ * Exports metrics directly from the producing worker, for workers that can't have a Tail Worker.
+ * Metrics published on the metrics channel are aggregated in-process and sent to the
+ * sinks with `ctx.waitUntil` at the end of each invocation.
+ *
+ * @example
+ * const exporter = new DirectExporter({ metrics: { sinks: [new DatadogMetricSink()] } });
+ * export default exporter.instrument({ async fetch(request, env, ctx) { ... } });
+ */
+export class DirectExporter {
+  #metricSinks: (MetricSink | MetricRoute)[];
+  #metrics: MetricsDb;
+  #registry?: MetricRegistry;
+  #tagNormalizer: TagNormalizer;
+  #relabeler: Relabeler;
+  #retryPolicy?: RetryPolicy;
+  #globalTags: Tags;
+  #invocationMetric: ResolvedDefaultMetrics["workersInvocation"];
+  #histogramSketch?: QuantileSketchFactory;
+  #flushId = 0;
+  #subscriber = (message: unknown) => this.#storeMetric(message as MetricPayload);
+
+  constructor(options: DirectExporterOptions) {
+    this.#metricSinks = options.metrics.sinks;
+    this.#registry = options.metrics.registry;
+    this.#metrics = new MetricsDb({
+      cardinalityLimits: options.metrics.cardinalityLimits,
+      bucketing: options.metrics.bucketing,
+      histogramSketch: options.metrics.histogramSketch,
+    });
+    this.#histogramSketch = options.metrics.histogramSketch;
+    this.#tagNormalizer = new TagNormalizer(options.metrics.tagNormalization);
+    this.#relabeler = new Relabeler(options.metrics.relabel ?? []);
+    this.#retryPolicy = options.metrics.retry;
+    this.#globalTags = options.globalTags ?? {};
+    this.#invocationMetric = resolveDefaultMetrics(
+      options.metrics.defaultMetrics,
+    ).workersInvocation;
+
+    subscribe(METRICS_CHANNEL_NAME, this.#subscriber);
+  }
+
+  /**
+   * Wrap a handler so metrics are flushed at the end of every fetch, scheduled, queue and email invocation
+   */
+  instrument<Env = unknown, QueueHandlerMessage = unknown, CfHostMetadata = unknown>(
+    handler: ExportedHandler<Env, QueueHandlerMessage, CfHostMetadata>,
+  ): ExportedHandler<Env, QueueHandlerMessage, CfHostMetadata> {
+    const instrumented: Record<string, unknown> = { ...handler };
+
+    for (const [method, trigger] of Object.entries(INSTRUMENTED_HANDLERS)) {
+      const original = (handler as Record<string, unknown>)[method];
+      if (typeof original !== "function" || !trigger) {
+        continue;
+      }
+
+      instrumented[method] = async (...args: unknown[]) => {
+        // Every instrumented handler receives the execution context as its third argument
+        const ctx = args[2] as ExecutionContext;
+        let outcome = "ok";
+        try {
+          return await (original as HandlerMethod).apply(handler, args);
+        } catch (error) {
+          outcome = "exception";
+          throw error;
+        } finally {
+          this.#recordInvocation(trigger, outcome);
+          this.flush(ctx);
+        }
+      };
+    }
+
+    return instrumented as ExportedHandler<
+      Env,
+      QueueHandlerMessage,
+      CfHostMetadata
+    >;
+  }
+
+  /**
+   * Flush all buffered metrics to the sinks using `ctx.waitUntil`
+   */
+  flush(ctx: ExecutionContext): void {
+    ctx.waitUntil(this.#performFlush(Date.now() + WAIT_UNTIL_BUDGET_MS));
+  }
+
+  /**
+   * Stop receiving metrics from the metrics channel
+   */
+  close(): void {
+    unsubscribe(METRICS_CHANNEL_NAME, this.#subscriber);
+  }
+
+  #storeMetric(message: MetricPayload): void {
+    const violation = this.#registry?.check(message);
+    if (violation) {
+      console.warn(`Dropping metric: ${violation.message}`);
+    }
+    const metric = violation ? registryDroppedMetric(message, violation) : message;
+
+    this.#writeMetric({
+      ...metric,
+      tags: {
+        ...this.#globalTags,
+        ...metric.tags,
+      },
+      timestamp: Date.now(),
+    });
+  }
+
+  #recordInvocation(trigger: TraceItemTrigger, outcome: string): void {
+    const { enabled, name, tags } = this.#invocationMetric;
+    if (!enabled) {
+      return;
+    }
+
+    this.#writeMetric({
+      type: MetricType.COUNT,
+      name,
+      value: 1,
+      tags: { ...this.#globalTags, ...tags, outcome, trigger },
+      timestamp: Date.now(),
+    });
+  }
+
+  #writeMetric(metric: TimestampedMetricPayload): void {
+    const relabeled = this.#relabeler.relabel(metric);
+    if (!relabeled) {
+      return;
+    }
+
+    this.#metrics.storeMetric({
+      ...relabeled,
+      tags: this.#tagNormalizer.normalize(relabeled.name, relabeled.tags),
+    });
+  }
+
+  async #performFlush(deadline: number): Promise<void> {
+    const localFlushId = ++this.#flushId;
+    await deliverMetrics(this.#metricSinks, this.#metrics.takeExportable(), {
+      timestamp: Date.now(),
+      deadline,
+      retryPolicy: this.#retryPolicy,
+      histogramSketch: this.#histogramSketch,
+    });
+
+    // With bucketing, the latest flush exports the oldest open bucket once it closes,
+    // when that's within the `waitUntil` budget
+    const nextExport = this.#metrics.nextExportTime();
+    if (nextExport === undefined || nextExport >= deadline) {
+      return;
+    }
+    await scheduler.wait(Math.max(nextExport - Date.now(), 0));
+    if (localFlushId === this.#flushId) {
+      await this.#performFlush(deadline);
+    }
+  }
+}
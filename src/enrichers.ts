@@ -0,0 +1,21 @@
+import type { TraceItem } from "@cloudflare/workers-types";
+import type { Tags } from "./types";
+
+/**
+ * Derive extra tags from a trace item. The tags are added to every metric from the trace item.
+ */
+export type TagEnricher = (traceItem: TraceItem) => Tags;
+
+/**
+ * Tag metrics from fetch invocations with the `colo`, `country`, `asn` and `httpProtocol`
+ * of the request's `cf` properties. Other invocations aren't tagged.
+ */
+export const cfTagEnricher: TagEnricher = (traceItem) => {
+  const event = traceItem.event;
+  if (!event || !("request" in event) || !event.request.cf) {
+    return {};
+  }
+
+  const { colo, country, asn, httpProtocol } = event.request.cf;
+  return { colo, country, asn, httpProtocol };
+};
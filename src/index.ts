@@ -5,21 +5,80 @@
  */
 
 export * from "./metrics";
+export * from "./definitions";
 export * from "./tail";
+export * from "./directExporter";
+export * from "./enrichers";
+export * from "./relabel";
+export * from "./retry";
+export type {
+  DeadLetterBatch,
+  DeadLetterKind,
+  DeadLetterOptions,
+  DeadLetterStore,
+} from "./deadLetter/store";
+export type { ReplayResult } from "./deadLetter/handler";
+export * from "./deadLetter/kv";
+export * from "./deadLetter/r2";
+export * from "./deadLetter/queue";
+export * from "./deadLetter/durableObject";
+export * from "./aggregator/durableObject";
+export type { MetricsAggregatorOptions } from "./aggregator/aggregator";
+export * from "./sinks/metrics/aggregator";
+export { SinkDeliveryError } from "./sinks/sink";
+export type { LogSink, MetricSink } from "./sinks/sink";
+export type {
+  ExportedHistogramMetricPayload,
+  ExportedMetricPayload,
+  HistogramDistribution,
+} from "./types";
+export type {
+  LogRoute,
+  LogSelector,
+  MetricRoute,
+  MetricSelector,
+  TagMatcher,
+} from "./routing";
+export * from "./instrumentation/handler";
+export * from "./instrumentation/fetch";
+export * from "./instrumentation/bindings";
+export * from "./instrumentation/durableObject";
+export type { InstrumentationOptions } from "./instrumentation/shared";
 export * from "./sinks/metrics/datadog";
+export type { TagNormalizationOptions } from "./utils/tags";
+export { DDSketch, ddSketch } from "./utils/sketch";
+export type {
+  DDSketchOptions,
+  QuantileSketch,
+  QuantileSketchFactory,
+  QuantileSketchState,
+} from "./utils/sketch";
+export type {
+  BucketingOptions,
+  CardinalityLimitOptions,
+  CardinalityLimitRule,
+  MetricAggregate,
+} from "./metricsDb";
+export type {
+  DefaultMetricOptions,
+  DefaultHistogramMetricOptions,
+  DefaultMetricsOptions,
+} from "./defaultMetrics";
 
 import * as metrics from "./metrics";
 import { TailExporter } from "./tail";
+import { DirectExporter } from "./directExporter";
 import { DatadogMetricSink } from "./sinks/metrics/datadog";
 import { OtelMetricSink } from "./sinks/metrics/otel";
 import { WorkersAnalyticsEngineSink } from "./sinks/metrics/workersAnalyticsEngine";
 import { OtelLogSink } from "./sinks/logs/otel";
 
-export { metrics, TailExporter, DatadogMetricSink, WorkersAnalyticsEngineSink, OtelMetricSink, OtelLogSink };
+export { metrics, TailExporter, DirectExporter, DatadogMetricSink, WorkersAnalyticsEngineSink, OtelMetricSink, OtelLogSink };
 
 export default {
   metrics,
   TailExporter,
+  DirectExporter,
   DatadogMetricSink,
   WorkersAnalyticsEngineSink,
   OtelMetricSink,
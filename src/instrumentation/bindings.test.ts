@@ -0,0 +1,146 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  beforeAll,
+  afterAll,
+} from "vitest";
+import { subscribe, unsubscribe } from "node:diagnostics_channel";
+import {
+  instrumentD1,
+  instrumentKV,
+  instrumentQueue,
+  instrumentR2,
+} from "./bindings";
+import { METRICS_CHANNEL_NAME, type MetricPayload, MetricType } from "../types";
+
+describe("binding instrumentation", () => {
+  let receivedMessages: MetricPayload[] = [];
+  const subscriber = (message: unknown) => {
+    receivedMessages.push(message as MetricPayload);
+  };
+
+  beforeAll(() => {
+    subscribe(METRICS_CHANNEL_NAME, subscriber);
+  });
+
+  beforeEach(() => {
+    receivedMessages = [];
+  });
+
+  afterAll(() => {
+    unsubscribe(METRICS_CHANNEL_NAME, subscriber);
+  });
+
+  it("should record KV operations tagged with the binding name", async () => {
+    const store = new Map<string, string>([["key", "value"]]);
+    const namespace = {
+      async get(key: string) {
+        return store.get(key) ?? null;
+      },
+    } as unknown as KVNamespace;
+
+    const kv = instrumentKV(namespace, "CACHE", { tags: { service: "api" } });
+
+    expect(await kv.get("key")).toBe("value");
+    expect(receivedMessages).toEqual([
+      {
+        type: MetricType.COUNT,
+        name: "kv.operation.count",
+        value: 1,
+        tags: { service: "api", binding: "CACHE", operation: "get" },
+      },
+      expect.objectContaining({
+        type: MetricType.HISTOGRAM,
+        name: "kv.operation.duration",
+        tags: { service: "api", binding: "CACHE", operation: "get" },
+        unit: "ms",
+      }),
+    ]);
+  });
+
+  it("should record failed operations as errors and rethrow", async () => {
+    const bucket = {
+      async put() {
+        throw new Error("bucket unavailable");
+      },
+    } as unknown as R2Bucket;
+
+    const r2 = instrumentR2(bucket, "UPLOADS");
+
+    await expect(r2.put("key", "value")).rejects.toThrow("bucket unavailable");
+    expect(receivedMessages.map((m) => m.name)).toEqual([
+      "r2.operation.count",
+      "r2.operation.errors",
+      "r2.operation.duration",
+    ]);
+    expect(receivedMessages[1].tags).toEqual({
+      binding: "UPLOADS",
+      operation: "put",
+    });
+  });
+
+  it("should keep the binding as this for native methods", async () => {
+    const namespace = {
+      prefix: "v1:",
+      async put(this: { prefix: string }, key: string) {
+        return `${this.prefix}${key}`;
+      },
+    } as unknown as KVNamespace;
+
+    const kv = instrumentKV(namespace, "CACHE");
+
+    expect(await kv.put("key", "value")).toBe("v1:key");
+  });
+
+  it("should record D1 prepared statement executions as queries", async () => {
+    const statement = {
+      bind() {
+        return statement;
+      },
+      async all() {
+        return { results: [{ id: 1 }] };
+      },
+    };
+    const database = {
+      prepare() {
+        return statement;
+      },
+      async batch() {
+        return [];
+      },
+    } as unknown as D1Database;
+
+    const db = instrumentD1(database, "DB");
+
+    const result = await db.prepare("SELECT * FROM users WHERE id = ?").bind(1).all();
+    await db.batch([]);
+
+    expect(result.results).toEqual([{ id: 1 }]);
+    const operations = receivedMessages
+      .filter((m) => m.name === "d1.operation.count")
+      .map((m) => m.tags.operation);
+    expect(operations).toEqual(["query", "batch"]);
+  });
+
+  it("should record queue send and sendBatch operations", async () => {
+    const queue = {
+      async send() {},
+      async sendBatch() {},
+    } as unknown as Queue;
+
+    const producer = instrumentQueue(queue, "JOBS");
+
+    await producer.send({ id: 1 });
+    await producer.sendBatch([{ body: { id: 2 } }]);
+
+    const operations = receivedMessages
+      .filter((m) => m.name === "queue.operation.count")
+      .map((m) => m.tags);
+    expect(operations).toEqual([
+      { binding: "JOBS", operation: "send" },
+      { binding: "JOBS", operation: "sendBatch" },
+    ]);
+  });
+});
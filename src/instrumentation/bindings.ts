@@ -0,0 +1,181 @@
+import { count } from "../metrics";
+import {
+  durationHistogramOptions,
+  type InstrumentationOptions,
+  measure,
+} from "./shared";
+
+export type InstrumentBindingOptions = InstrumentationOptions;
+
+const BINDING_KINDS = ["kv", "r2", "d1", "queue"] as const;
+
+type BindingKind = (typeof BINDING_KINDS)[number];
+
+/**
+ * Names of the metrics recorded for the operations of a kind of binding
+ */
+function bindingMetrics(
+  kind: BindingKind,
+): { operations: string; errors: string; duration: string } {
+  return {
+    operations: `${kind}.operation.count`,
+    errors: `${kind}.operation.errors`,
+    duration: `${kind}.operation.duration`,
+  };
+}
+
+/**
+ * Names of the metrics recorded by the binding instrumentation, for every kind of binding
+ */
+export const BINDING_METRIC_NAMES: string[] = BINDING_KINDS.flatMap((kind) =>
+  Object.values(bindingMetrics(kind)),
+);
+
+const KV_OPERATIONS = ["get", "getWithMetadata", "put", "list", "delete"];
+const R2_OPERATIONS = [
+  "head",
+  "get",
+  "put",
+  "list",
+  "delete",
+  "createMultipartUpload",
+  "resumeMultipartUpload",
+];
+const D1_OPERATIONS = ["batch", "exec", "dump"];
+const D1_STATEMENT_OPERATIONS = ["first", "run", "all", "raw"];
+const QUEUE_OPERATIONS = ["send", "sendBatch"];
+
+type OperationRecorder = <T>(operation: string, fn: () => T) => T;
+
+/**
+ * Create a function that runs a binding operation and records
+ * `<kind>.operation.count`, `<kind>.operation.errors` and `<kind>.operation.duration`
+ */
+function createOperationRecorder(
+  kind: BindingKind,
+  bindingName: string,
+  options: InstrumentBindingOptions,
+): OperationRecorder {
+  const histogramOptions = durationHistogramOptions(options);
+  const baseTags = options.tags ?? {};
+  const metrics = bindingMetrics(kind);
+
+  return (operation, fn) => {
+    const tags = { ...baseTags, binding: bindingName, operation };
+    return measure(metrics.duration, fn, histogramOptions, (failed) => {
+      count(metrics.operations, 1, tags);
+      if (failed) {
+        count(metrics.errors, 1, tags);
+      }
+      return tags;
+    });
+  };
+}
+
+/**
+ * Proxy a binding so the listed methods are recorded as operations.
+ * Other methods are bound to the original binding so they keep working on native objects.
+ */
+function proxyBinding<T extends object>(
+  binding: T,
+  operations: string[],
+  recordOperation: OperationRecorder,
+  wrapResult: (method: string, result: unknown) => unknown = (_, result) =>
+    result,
+): T {
+  return new Proxy(binding, {
+    get(target, property) {
+      const value = Reflect.get(target, property, target);
+      if (typeof value !== "function") {
+        return value;
+      }
+
+      const method = String(property);
+      if (!operations.includes(method)) {
+        return (...args: unknown[]) =>
+          wrapResult(method, value.apply(target, args));
+      }
+
+      return (...args: unknown[]) =>
+        recordOperation(method, () => value.apply(target, args));
+    },
+  });
+}
+
+/**
+ * Instrument a KV namespace, recording get, getWithMetadata, put, list and delete operations
+ * @param namespace - The KV namespace binding
+ * @param bindingName - The name used for the `binding` tag
+ */
+export function instrumentKV<T extends KVNamespace>(
+  namespace: T,
+  bindingName: string,
+  options: InstrumentBindingOptions = {},
+): T {
+  const recordOperation = createOperationRecorder("kv", bindingName, options);
+  return proxyBinding(namespace, KV_OPERATIONS, recordOperation);
+}
+
+/**
+ * Instrument an R2 bucket, recording head, get, put, list, delete and multipart upload operations
+ * @param bucket - The R2 bucket binding
+ * @param bindingName - The name used for the `binding` tag
+ */
+export function instrumentR2<T extends R2Bucket>(
+  bucket: T,
+  bindingName: string,
+  options: InstrumentBindingOptions = {},
+): T {
+  const recordOperation = createOperationRecorder("r2", bindingName, options);
+  return proxyBinding(bucket, R2_OPERATIONS, recordOperation);
+}
+
+/**
+ * Instrument a D1 database. Executing a prepared statement (first, run, all or raw)
+ * is recorded as a `query` operation, alongside `batch`, `exec` and `dump`.
+ * @param database - The D1 database binding
+ * @param bindingName - The name used for the `binding` tag
+ */
+export function instrumentD1<T extends D1Database>(
+  database: T,
+  bindingName: string,
+  options: InstrumentBindingOptions = {},
+): T {
+  const recordOperation = createOperationRecorder("d1", bindingName, options);
+  const recordQuery: OperationRecorder = (_, fn) =>
+    recordOperation("query", fn);
+
+  // Statements returned by prepare and bind are proxied so executing them is recorded
+  const proxyStatement = (statement: D1PreparedStatement): D1PreparedStatement =>
+    proxyBinding(
+      statement,
+      D1_STATEMENT_OPERATIONS,
+      recordQuery,
+      (method, result) =>
+        method === "bind"
+          ? proxyStatement(result as D1PreparedStatement)
+          : result,
+    );
+
+  return proxyBinding(database, D1_OPERATIONS, recordOperation, (method, result) =>
+    method === "prepare" ? proxyStatement(result as D1PreparedStatement) : result,
+  );
+}
+
+/**
+ * Instrument a Queue producer binding, recording send and sendBatch operations
+ * @param queue - The Queue producer binding
+ * @param bindingName - The name used for the `binding` tag
+ */
+export function instrumentQueue<T extends Queue>(
+  queue: T,
+  bindingName: string,
+  options: InstrumentBindingOptions = {},
+): T {
+  const recordOperation = createOperationRecorder(
+    "queue",
+    bindingName,
+    options,
+  );
+  return proxyBinding(queue, QUEUE_OPERATIONS, recordOperation);
+}
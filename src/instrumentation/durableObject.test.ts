@@ -0,0 +1,200 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  beforeAll,
+  afterAll,
+} from "vitest";
+import { subscribe, unsubscribe } from "node:diagnostics_channel";
+import {
+  instrumentDurableObject,
+  instrumentedDurableObject,
+} from "./durableObject";
+import { METRICS_CHANNEL_NAME, type MetricPayload, MetricType } from "../types";
+
+class Counter {
+  ctx: DurableObjectState;
+
+  constructor(ctx: DurableObjectState, _env: unknown) {
+    this.ctx = ctx;
+  }
+
+  async fetch(_request: Request): Promise<Response> {
+    const value = ((await this.ctx.storage.get<number>("value")) ?? 0) + 1;
+    await this.ctx.storage.put("value", value);
+    return new Response(String(value));
+  }
+
+  async increment(by: number): Promise<number> {
+    const value = (await this._load()) + by;
+    await this.ctx.storage.put("value", value);
+    return value;
+  }
+
+  async _load(): Promise<number> {
+    return (await this.ctx.storage.get<number>("value")) ?? 0;
+  }
+
+  fail(): never {
+    throw new Error("rpc failed");
+  }
+
+  async alarm(_alarmInfo?: AlarmInvocationInfo): Promise<void> {
+    throw new Error("alarm failed");
+  }
+
+  webSocketMessage(_ws: WebSocket, _message: string | ArrayBuffer): void {}
+}
+
+function createState(): DurableObjectState {
+  const store = new Map<string, unknown>();
+  const storage = {
+    async get(key: string) {
+      return store.get(key);
+    },
+    async put(key: string, value: unknown) {
+      store.set(key, value);
+    },
+  };
+  return { storage } as unknown as DurableObjectState;
+}
+
+describe("instrumentDurableObject", () => {
+  let receivedMessages: MetricPayload[] = [];
+  const subscriber = (message: unknown) => {
+    receivedMessages.push(message as MetricPayload);
+  };
+
+  beforeAll(() => {
+    subscribe(METRICS_CHANNEL_NAME, subscriber);
+  });
+
+  beforeEach(() => {
+    receivedMessages = [];
+  });
+
+  afterAll(() => {
+    unsubscribe(METRICS_CHANNEL_NAME, subscriber);
+  });
+
+  it("should record fetch latency and storage operations tagged with the class name", async () => {
+    const InstrumentedCounter = instrumentDurableObject(Counter);
+    const counter = new InstrumentedCounter(createState(), {});
+
+    const response = await counter.fetch(new Request("https://example.com"));
+
+    expect(await response.text()).toBe("1");
+    expect(receivedMessages).toEqual([
+      {
+        type: MetricType.COUNT,
+        name: "durable_object.storage.operation.count",
+        value: 1,
+        tags: { class: "Counter", operation: "get" },
+      },
+      {
+        type: MetricType.COUNT,
+        name: "durable_object.storage.operation.count",
+        value: 1,
+        tags: { class: "Counter", operation: "put" },
+      },
+      expect.objectContaining({
+        type: MetricType.HISTOGRAM,
+        name: "durable_object.fetch.duration",
+        tags: { class: "Counter", error: false },
+        unit: "ms",
+      }),
+    ]);
+  });
+
+  it("should record RPC method latency tagged with the method name", async () => {
+    const InstrumentedCounter = instrumentDurableObject(Counter, {
+      className: "CounterObject",
+      tags: { service: "api" },
+    });
+    const counter = new InstrumentedCounter(createState(), {});
+
+    expect(await counter.increment(2)).toBe(2);
+    expect(() => counter.fail()).toThrow("rpc failed");
+
+    const rpcMetrics = receivedMessages.filter(
+      (m) => m.name === "durable_object.rpc.duration",
+    );
+    expect(rpcMetrics.map((m) => m.tags)).toEqual([
+      {
+        service: "api",
+        class: "CounterObject",
+        method: "increment",
+        error: false,
+      },
+      { service: "api", class: "CounterObject", method: "fail", error: true },
+    ]);
+  });
+
+  it("should only record the listed RPC methods", async () => {
+    const InstrumentedCounter = instrumentDurableObject(Counter, {
+      rpcMethods: ["fail"],
+    });
+    const counter = new InstrumentedCounter(createState(), {});
+
+    await counter.increment(1);
+    expect(() => counter.fail()).toThrow("rpc failed");
+
+    const rpcMetrics = receivedMessages.filter(
+      (m) => m.name === "durable_object.rpc.duration",
+    );
+    expect(rpcMetrics.map((m) => m.tags.method)).toEqual(["fail"]);
+  });
+
+  it("should record alarm executions and failures", async () => {
+    const InstrumentedCounter = instrumentDurableObject(Counter);
+    const counter = new InstrumentedCounter(createState(), {});
+
+    await expect(
+      counter.alarm({ retryCount: 1, isRetry: true }),
+    ).rejects.toThrow("alarm failed");
+
+    expect(receivedMessages).toEqual([
+      {
+        type: MetricType.COUNT,
+        name: "durable_object.alarm.count",
+        value: 1,
+        tags: { class: "Counter", retry: true, error: true },
+      },
+      expect.objectContaining({
+        type: MetricType.HISTOGRAM,
+        name: "durable_object.alarm.duration",
+        tags: { class: "Counter", retry: true, error: true },
+      }),
+    ]);
+  });
+
+  it("should count websocket messages by type", () => {
+    const InstrumentedCounter = instrumentDurableObject(Counter);
+    const counter = new InstrumentedCounter(createState(), {});
+    const ws = {} as WebSocket;
+
+    counter.webSocketMessage(ws, "hello");
+    counter.webSocketMessage(ws, new ArrayBuffer(4));
+
+    expect(receivedMessages.map((m) => m.tags)).toEqual([
+      { class: "Counter", message_type: "text" },
+      { class: "Counter", message_type: "binary" },
+    ]);
+  });
+
+  it("should only instrument a storage instance once", async () => {
+    const state = createState();
+    const InstrumentedCounter = instrumentedDurableObject()(Counter);
+    new InstrumentedCounter(state, {});
+    const counter = new InstrumentedCounter(state, {});
+
+    await counter.increment(1);
+
+    expect(
+      receivedMessages.filter(
+        (m) => m.name === "durable_object.storage.operation.count",
+      ),
+    ).toHaveLength(2);
+  });
+});
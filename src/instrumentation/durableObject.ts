@@ -0,0 +1,226 @@
+import { DurableObject } from "cloudflare:workers";
+import { count } from "../metrics";
+import {
+  durationHistogramOptions,
+  type InstrumentationOptions,
+  measure,
+} from "./shared";
+
+export interface InstrumentDurableObjectOptions extends InstrumentationOptions {
+  /**
+   * The name used for the `class` tag. Default: the name of the class
+   */
+  className?: string;
+  /**
+   * The methods recorded as RPC methods. Methods called from the object itself are recorded too,
+   * so list the RPC methods when the class has public helpers.
+   * Default: every method of the class except the handlers and methods prefixed with `_`
+   */
+  rpcMethods?: string[];
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: mixins require an any[] constructor signature
+type DurableObjectClass = new (...args: any[]) => object;
+
+const STORAGE_OPERATIONS = [
+  "get",
+  "put",
+  "delete",
+  "deleteAll",
+  "list",
+  "transaction",
+  "getAlarm",
+  "setAlarm",
+  "deleteAlarm",
+  "sync",
+];
+
+// Lifecycle and websocket handlers that aren't RPC methods
+const HANDLER_METHODS = [
+  "constructor",
+  "fetch",
+  "alarm",
+  "webSocketMessage",
+  "webSocketClose",
+  "webSocketError",
+];
+
+const instrumentedStorages = new WeakSet<object>();
+
+/**
+ * Names of the metrics recorded by `instrumentDurableObject`
+ */
+export const DURABLE_OBJECT_METRICS = {
+  storageOperations: "durable_object.storage.operation.count",
+  fetchDuration: "durable_object.fetch.duration",
+  alarms: "durable_object.alarm.count",
+  alarmDuration: "durable_object.alarm.duration",
+  websocketMessages: "durable_object.websocket.message.count",
+  rpcDuration: "durable_object.rpc.duration",
+} as const;
+
+/**
+ * Count storage operations by replacing the operation methods on this storage instance.
+ * The state object can't be proxied since the `DurableObject` base class requires the native state.
+ */
+function instrumentStorage(
+  storage: DurableObjectStorage | undefined,
+  onOperation: (operation: string) => void,
+): void {
+  if (!storage || instrumentedStorages.has(storage)) {
+    return;
+  }
+  instrumentedStorages.add(storage);
+
+  const patch = (target: object, method: string, operation: string) => {
+    const original = Reflect.get(target, method);
+    if (typeof original !== "function") {
+      return;
+    }
+    Object.defineProperty(target, method, {
+      configurable: true,
+      writable: true,
+      value: (...args: unknown[]) => {
+        onOperation(operation);
+        return original.apply(target, args);
+      },
+    });
+  };
+
+  for (const operation of STORAGE_OPERATIONS) {
+    patch(storage, operation, operation);
+  }
+
+  const sql = Reflect.get(storage, "sql");
+  if (sql && typeof sql === "object") {
+    patch(sql, "exec", "sql.exec");
+  }
+}
+
+/**
+ * Collect the names of methods defined on a class and its parents, up to the `DurableObject` base class
+ */
+function collectMethodNames(prototype: object): string[] {
+  const names = new Set<string>();
+  let current: object | null = prototype;
+  while (
+    current &&
+    current !== Object.prototype &&
+    current !== DurableObject.prototype
+  ) {
+    for (const name of Object.getOwnPropertyNames(current)) {
+      const descriptor = Object.getOwnPropertyDescriptor(current, name);
+      if (typeof descriptor?.value === "function") {
+        names.add(name);
+      }
+    }
+    current = Object.getPrototypeOf(current);
+  }
+  return Array.from(names);
+}
+
+/**
+ * Wrap a Durable Object class to record metrics tagged with the class name:
+ *
+ * - `durable_object.fetch.duration`: fetch handler latency, tagged with `error`
+ * - `durable_object.rpc.duration`: RPC method latency, tagged with `method` and `error`
+ * - `durable_object.alarm.count` and `durable_object.alarm.duration`: alarm executions, tagged with `error` and `retry`
+ * - `durable_object.storage.operation.count`: storage operations, tagged with `operation`
+ * - `durable_object.websocket.message.count`: hibernatable websocket messages, tagged with `message_type`
+ *
+ * Can be used as a mixin or through the `instrumentedDurableObject` class decorator.
+ * @example
+ * export const Counter = instrumentDurableObject(class Counter extends DurableObject { ... });
+ */
+export function instrumentDurableObject<T extends DurableObjectClass>(
+  Base: T,
+  options: InstrumentDurableObjectOptions = {},
+): T {
+  const histogramOptions = durationHistogramOptions(options);
+  const baseTags = { ...options.tags, class: options.className ?? Base.name };
+
+  const Instrumented = class extends Base {
+    // biome-ignore lint/suspicious/noExplicitAny: mixins require an any[] constructor signature
+    constructor(...args: any[]) {
+      const [state] = args as [DurableObjectState | undefined];
+      instrumentStorage(state?.storage, (operation) => {
+        count(DURABLE_OBJECT_METRICS.storageOperations, 1, {
+          ...baseTags,
+          operation,
+        });
+      });
+      super(...args);
+    }
+  };
+
+  const isRpcMethod = (method: string) =>
+    !HANDLER_METHODS.includes(method) &&
+    (options.rpcMethods
+      ? options.rpcMethods.includes(method)
+      : !method.startsWith("_"));
+
+  const basePrototype = Base.prototype as Record<string, unknown>;
+  const prototype = Instrumented.prototype as Record<string, unknown>;
+
+  for (const method of collectMethodNames(Base.prototype)) {
+    const original = basePrototype[method] as (...args: unknown[]) => unknown;
+
+    if (method === "fetch") {
+      prototype.fetch = function (this: unknown, ...args: unknown[]) {
+        return measure(
+          DURABLE_OBJECT_METRICS.fetchDuration,
+          () => original.apply(this, args),
+          histogramOptions,
+          (failed) => ({ ...baseTags, error: failed }),
+        );
+      };
+    } else if (method === "alarm") {
+      prototype.alarm = function (this: unknown, ...args: unknown[]) {
+        const alarmInfo = args[0] as AlarmInvocationInfo | undefined;
+        const tags = { ...baseTags, retry: alarmInfo?.isRetry ?? false };
+        return measure(
+          DURABLE_OBJECT_METRICS.alarmDuration,
+          () => original.apply(this, args),
+          histogramOptions,
+          (failed) => {
+            const alarmTags = { ...tags, error: failed };
+            count(DURABLE_OBJECT_METRICS.alarms, 1, alarmTags);
+            return alarmTags;
+          },
+        );
+      };
+    } else if (method === "webSocketMessage") {
+      prototype.webSocketMessage = function (this: unknown, ...args: unknown[]) {
+        count(DURABLE_OBJECT_METRICS.websocketMessages, 1, {
+          ...baseTags,
+          message_type: typeof args[1] === "string" ? "text" : "binary",
+        });
+        return original.apply(this, args);
+      };
+    } else if (isRpcMethod(method)) {
+      prototype[method] = function (this: unknown, ...args: unknown[]) {
+        return measure(
+          DURABLE_OBJECT_METRICS.rpcDuration,
+          () => original.apply(this, args),
+          histogramOptions,
+          (failed) => ({ ...baseTags, method, error: failed }),
+        );
+      };
+    }
+  }
+
+  return Instrumented;
+}
+
+/**
+ * Class decorator form of `instrumentDurableObject`
+ * @example
+ * @instrumentedDurableObject({ className: "Counter" })
+ * export class Counter extends DurableObject { ... }
+ */
+export function instrumentedDurableObject(
+  options: InstrumentDurableObjectOptions = {},
+) {
+  return <T extends DurableObjectClass>(Base: T, _context?: unknown): T =>
+    instrumentDurableObject(Base, options);
+}
@@ -0,0 +1,158 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  beforeAll,
+  afterAll,
+} from "vitest";
+import { subscribe, unsubscribe } from "node:diagnostics_channel";
+import { createInstrumentedFetch, instrumentFetch } from "./fetch";
+import { METRICS_CHANNEL_NAME, type MetricPayload, MetricType } from "../types";
+
+const okFetch = (async () => new Response("ok")) as unknown as typeof fetch;
+
+describe("fetch instrumentation", () => {
+  let receivedMessages: MetricPayload[] = [];
+  const subscriber = (message: unknown) => {
+    receivedMessages.push(message as MetricPayload);
+  };
+
+  beforeAll(() => {
+    subscribe(METRICS_CHANNEL_NAME, subscriber);
+  });
+
+  beforeEach(() => {
+    receivedMessages = [];
+  });
+
+  afterAll(() => {
+    unsubscribe(METRICS_CHANNEL_NAME, subscriber);
+  });
+
+  it("should record count and duration per host, method and status class", async () => {
+    const instrumentedFetch = createInstrumentedFetch({
+      fetch: okFetch,
+      tags: { service: "api" },
+    });
+
+    const response = await instrumentedFetch("https://API.example.com:8443/users", {
+      method: "post",
+    });
+
+    expect(await response.text()).toBe("ok");
+    const expectedTags = {
+      service: "api",
+      host: "api.example.com",
+      method: "POST",
+      status_class: "2xx",
+      error: false,
+    };
+    expect(receivedMessages[0]).toEqual({
+      type: MetricType.COUNT,
+      name: "http.client.request.count",
+      value: 1,
+      tags: expectedTags,
+    });
+    expect(receivedMessages[1]).toMatchObject({
+      type: MetricType.HISTOGRAM,
+      name: "http.client.duration",
+      tags: expectedTags,
+      unit: "ms",
+    });
+  });
+
+  it("should read the method and url from a Request", async () => {
+    const instrumentedFetch = createInstrumentedFetch({
+      fetch: (async () =>
+        new Response("", { status: 502 })) as unknown as typeof fetch,
+    });
+
+    await instrumentedFetch(
+      new Request("https://upstream.example.com/", { method: "DELETE" }),
+    );
+
+    expect(receivedMessages[0].tags).toEqual({
+      host: "upstream.example.com",
+      method: "DELETE",
+      status_class: "5xx",
+      error: true,
+    });
+  });
+
+  it("should record network errors and rethrow", async () => {
+    const instrumentedFetch = createInstrumentedFetch({
+      fetch: (async () => {
+        throw new Error("network down");
+      }) as unknown as typeof fetch,
+    });
+
+    await expect(instrumentedFetch("https://example.com/")).rejects.toThrow(
+      "network down",
+    );
+
+    expect(receivedMessages[0].tags).toEqual({
+      host: "example.com",
+      method: "GET",
+      status_class: "unknown",
+      error: true,
+    });
+  });
+
+  it("should fold hosts outside the allowlist into other", async () => {
+    const instrumentedFetch = createInstrumentedFetch({
+      fetch: okFetch,
+      allowedHosts: ["api.stripe.com", "*.example.com", /^db-\d+\.internal$/],
+    });
+
+    for (const url of [
+      "https://api.stripe.com/",
+      "https://eu.example.com/",
+      "https://example.com/",
+      "https://db-12.internal/",
+      "https://tenant-123.attacker.io/",
+    ]) {
+      await instrumentedFetch(url);
+    }
+
+    const hosts = receivedMessages
+      .filter((m) => m.type === MetricType.COUNT)
+      .map((m) => m.tags.host);
+    expect(hosts).toEqual([
+      "api.stripe.com",
+      "eu.example.com",
+      "example.com",
+      "db-12.internal",
+      "other",
+    ]);
+  });
+
+  it("should apply host normalization before the allowlist", async () => {
+    const instrumentedFetch = createInstrumentedFetch({
+      fetch: okFetch,
+      normalizeHost: (host) => host.replace(/^tenant-\d+\./, "tenant."),
+      allowedHosts: ["tenant.example.com"],
+    });
+
+    await instrumentedFetch("https://tenant-42.example.com/");
+
+    expect(receivedMessages[0].tags.host).toBe("tenant.example.com");
+  });
+
+  it("should patch and restore globalThis.fetch", async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = okFetch;
+    try {
+      const restore = instrumentFetch();
+      expect(globalThis.fetch).not.toBe(okFetch);
+
+      await fetch("https://example.com/");
+      expect(receivedMessages[0].name).toBe("http.client.request.count");
+
+      restore();
+      expect(globalThis.fetch).toBe(okFetch);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
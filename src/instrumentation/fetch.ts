@@ -0,0 +1,133 @@
+import { count } from "../metrics";
+import {
+  durationHistogramOptions,
+  type InstrumentationOptions,
+  measure,
+} from "./shared";
+
+export interface InstrumentFetchOptions extends InstrumentationOptions {
+  /**
+   * The fetch function to wrap, e.g. a service binding's `fetch` bound to the binding.
+   * Default: `globalThis.fetch`
+   */
+  fetch?: typeof fetch;
+  /**
+   * Hosts that are tagged individually. Strings match the host exactly, or any
+   * subdomain when prefixed with `*.` (e.g. `*.example.com`). Requests to other
+   * hosts are tagged with `host: "other"` to keep cardinality bounded.
+   * Default: every host is tagged individually
+   */
+  allowedHosts?: (string | RegExp)[];
+  /**
+   * Normalize a hostname before it is matched against `allowedHosts` and used as the `host` tag,
+   * e.g. to collapse per-tenant subdomains. Default: the lowercased hostname without the port
+   */
+  normalizeHost?: (hostname: string) => string;
+}
+
+const OTHER_HOST = "other";
+
+/**
+ * Names of the metrics recorded by `createInstrumentedFetch`
+ */
+export const FETCH_METRICS = {
+  requests: "http.client.request.count",
+  duration: "http.client.duration",
+} as const;
+
+function matchesHost(host: string, pattern: string | RegExp): boolean {
+  if (pattern instanceof RegExp) {
+    return pattern.test(host);
+  }
+  if (pattern.startsWith("*.")) {
+    const domain = pattern.slice(2).toLowerCase();
+    return host === domain || host.endsWith(`.${domain}`);
+  }
+  return host === pattern.toLowerCase();
+}
+
+/**
+ * Create a fetch function that records `http.client.request.count` and `http.client.duration`
+ * for every outbound request, tagged with `host`, `method`, `status_class` and `error`.
+ *
+ * `error` is true when the request fails with a network error (`status_class: "unknown"`)
+ * or the response has a 5xx status.
+ */
+export function createInstrumentedFetch(
+  options: InstrumentFetchOptions = {},
+): typeof fetch {
+  const baseFetch = options.fetch ?? globalThis.fetch.bind(globalThis);
+  const histogramOptions = durationHistogramOptions(options);
+  const baseTags = options.tags ?? {};
+  const normalizeHost =
+    options.normalizeHost ?? ((hostname: string) => hostname.toLowerCase());
+
+  const hostTag = (url: string): string => {
+    let host: string;
+    try {
+      host = normalizeHost(new URL(url).hostname);
+    } catch {
+      return OTHER_HOST;
+    }
+
+    if (
+      options.allowedHosts &&
+      !options.allowedHosts.some((pattern) => matchesHost(host, pattern))
+    ) {
+      return OTHER_HOST;
+    }
+    return host;
+  };
+
+  const instrumentedFetch = async (
+    input: RequestInfo | URL,
+    init?: RequestInit,
+  ): Promise<Response> => {
+    const url = input instanceof Request ? input.url : String(input);
+    const method = (
+      init?.method ?? (input instanceof Request ? input.method : "GET")
+    ).toUpperCase();
+    let status: number | undefined;
+    return measure(
+      FETCH_METRICS.duration,
+      async () => {
+        const response = await baseFetch(input, init);
+        status = response.status;
+        return response;
+      },
+      histogramOptions,
+      () => {
+        const tags = {
+          ...baseTags,
+          host: hostTag(url),
+          method,
+          status_class:
+            status === undefined ? "unknown" : `${Math.floor(status / 100)}xx`,
+          error: status === undefined || status >= 500,
+        };
+        count(FETCH_METRICS.requests, 1, tags);
+        return tags;
+      },
+    );
+  };
+
+  return instrumentedFetch as typeof fetch;
+}
+
+/**
+ * Replace `globalThis.fetch` with an instrumented fetch, see `createInstrumentedFetch`
+ * @returns A function that restores the original `globalThis.fetch`
+ */
+export function instrumentFetch(
+  options: Omit<InstrumentFetchOptions, "fetch"> = {},
+): () => void {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = createInstrumentedFetch({
+    ...options,
+    fetch: originalFetch.bind(globalThis),
+  });
+
+  return () => {
+    globalThis.fetch = originalFetch;
+  };
+}
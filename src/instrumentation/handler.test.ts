@@ -0,0 +1,179 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  beforeAll,
+  afterAll,
+} from "vitest";
+import { subscribe, unsubscribe } from "node:diagnostics_channel";
+import { instrumentHandler } from "./handler";
+import { METRICS_CHANNEL_NAME, type MetricPayload, MetricType } from "../types";
+
+const ctx = {
+  waitUntil() {},
+  passThroughOnException() {},
+  props: {},
+} as ExecutionContext;
+
+describe("instrumentHandler", () => {
+  let receivedMessages: MetricPayload[] = [];
+  const subscriber = (message: unknown) => {
+    receivedMessages.push(message as MetricPayload);
+  };
+
+  beforeAll(() => {
+    subscribe(METRICS_CHANNEL_NAME, subscriber);
+  });
+
+  beforeEach(() => {
+    receivedMessages = [];
+  });
+
+  afterAll(() => {
+    unsubscribe(METRICS_CHANNEL_NAME, subscriber);
+  });
+
+  it("should record request count and duration tagged by normalized route", async () => {
+    const handler = instrumentHandler(
+      {
+        async fetch() {
+          return new Response("ok", { status: 201 });
+        },
+      },
+      { routes: ["/users/:id", "/assets/*"], tags: { service: "api" } },
+    );
+
+    const response = await handler.fetch?.(
+      new Request("https://example.com/users/123", { method: "POST" }),
+      {},
+      ctx,
+    );
+
+    expect(response?.status).toBe(201);
+    const expectedTags = {
+      service: "api",
+      method: "POST",
+      route: "/users/:id",
+      status_class: "2xx",
+      error: false,
+    };
+    expect(receivedMessages[0]).toEqual({
+      type: MetricType.COUNT,
+      name: "http.server.request.count",
+      value: 1,
+      tags: expectedTags,
+    });
+    expect(receivedMessages[1]).toMatchObject({
+      type: MetricType.HISTOGRAM,
+      name: "http.server.duration",
+      tags: expectedTags,
+      unit: "ms",
+    });
+  });
+
+  it("should tag unmatched routes and 5xx responses", async () => {
+    const handler = instrumentHandler({
+      async fetch() {
+        return new Response("unavailable", { status: 503 });
+      },
+    });
+
+    await handler.fetch?.(new Request("https://example.com/anything/42"), {}, ctx);
+
+    expect(receivedMessages[0].tags).toEqual({
+      method: "GET",
+      route: "unmatched",
+      status_class: "5xx",
+      error: true,
+    });
+  });
+
+  it("should record thrown errors as 5xx and rethrow", async () => {
+    const handler = instrumentHandler(
+      {
+        async fetch() {
+          throw new Error("boom");
+        },
+      },
+      { routes: ["/"] },
+    );
+
+    await expect(
+      handler.fetch?.(new Request("https://example.com/"), {}, ctx),
+    ).rejects.toThrow("boom");
+
+    expect(receivedMessages[0].tags).toEqual({
+      method: "GET",
+      route: "/",
+      status_class: "5xx",
+      error: true,
+    });
+  });
+
+  it("should instrument scheduled handlers", async () => {
+    const handler = instrumentHandler({
+      async scheduled() {},
+    });
+
+    await handler.scheduled?.(
+      { cron: "*/5 * * * *", scheduledTime: Date.now(), noRetry() {} },
+      {},
+      ctx,
+    );
+
+    expect(receivedMessages.map((m) => m.name)).toEqual([
+      "scheduled.invocation.count",
+      "scheduled.duration",
+    ]);
+    expect(receivedMessages[0].tags).toEqual({
+      cron: "*/5 * * * *",
+      error: false,
+    });
+  });
+
+  it("should instrument queue handlers with the batch size", async () => {
+    const handler = instrumentHandler({
+      async queue() {
+        throw new Error("boom");
+      },
+    });
+
+    const batch = {
+      queue: "jobs",
+      messages: [{}, {}, {}],
+      retryAll() {},
+      ackAll() {},
+    } as unknown as MessageBatch;
+
+    await expect(handler.queue?.(batch, {}, ctx)).rejects.toThrow("boom");
+
+    expect(receivedMessages.map((m) => m.name)).toEqual([
+      "queue.batch.count",
+      "queue.batch.size",
+      "queue.duration",
+    ]);
+    expect(receivedMessages[1]).toMatchObject({
+      value: 3,
+      tags: { queue: "jobs", error: true },
+      unit: "{message}",
+    });
+  });
+
+  it("should preserve the handler's this binding", async () => {
+    const handler = instrumentHandler({
+      greeting: "hello",
+      async fetch() {
+        return new Response(this.greeting);
+      },
+    } as ExportedHandler & { greeting: string });
+
+    const response = await handler.fetch?.(
+      new Request("https://example.com/"),
+      {},
+      ctx,
+    );
+
+    expect(await response?.text()).toBe("hello");
+  });
+});
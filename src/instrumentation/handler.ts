@@ -0,0 +1,127 @@
+import { count, histogram } from "../metrics";
+import {
+  durationHistogramOptions,
+  type InstrumentationOptions,
+  measure,
+} from "./shared";
+
+export interface InstrumentHandlerOptions extends InstrumentationOptions {
+  /**
+   * Route patterns used to normalize request paths, in `URLPattern` pathname syntax
+   * (e.g. `/users/:id` or `/assets/*`). The first matching pattern is used as the `route` tag.
+   * Requests that match no pattern are tagged with `route: "unmatched"` to keep cardinality bounded.
+   */
+  routes?: string[];
+}
+
+const UNMATCHED_ROUTE = "unmatched";
+
+/**
+ * Names of the metrics recorded by `instrumentHandler`
+ */
+export const HANDLER_METRICS = {
+  httpRequests: "http.server.request.count",
+  httpDuration: "http.server.duration",
+  scheduledInvocations: "scheduled.invocation.count",
+  scheduledDuration: "scheduled.duration",
+  queueBatches: "queue.batch.count",
+  queueBatchSize: "queue.batch.size",
+  queueDuration: "queue.duration",
+} as const;
+
+/**
+ * Wrap an `ExportedHandler` to record standard metrics for every invocation:
+ *
+ * - `fetch`: `http.server.request.count` and `http.server.duration`, tagged with
+ *   `method`, `route`, `status_class` and `error`
+ * - `scheduled`: `scheduled.invocation.count` and `scheduled.duration`, tagged with `cron` and `error`
+ * - `queue`: `queue.batch.count`, `queue.batch.size` and `queue.duration`, tagged with `queue` and `error`
+ *
+ * `error` is true when the handler throws, or for fetch when it responds with a 5xx status.
+ */
+export function instrumentHandler<
+  Env = unknown,
+  QueueHandlerMessage = unknown,
+  CfHostMetadata = unknown,
+>(
+  handler: ExportedHandler<Env, QueueHandlerMessage, CfHostMetadata>,
+  options: InstrumentHandlerOptions = {},
+): ExportedHandler<Env, QueueHandlerMessage, CfHostMetadata> {
+  const histogramOptions = durationHistogramOptions(options);
+  const baseTags = options.tags ?? {};
+  const routes = (options.routes ?? []).map((pattern) => ({
+    pattern,
+    matcher: new URLPattern({ pathname: pattern }),
+  }));
+
+  const normalizeRoute = (url: string): string => {
+    const pathname = new URL(url).pathname;
+    const route = routes.find(({ matcher }) => matcher.test({ pathname }));
+    return route ? route.pattern : UNMATCHED_ROUTE;
+  };
+
+  const instrumented = { ...handler };
+  const { fetch, scheduled, queue } = handler;
+
+  if (fetch) {
+    instrumented.fetch = (request, env, ctx) => {
+      let status = 500;
+      return measure(
+        HANDLER_METRICS.httpDuration,
+        async () => {
+          const response = await fetch.call(handler, request, env, ctx);
+          status = response.status;
+          return response;
+        },
+        histogramOptions,
+        (threw) => {
+          const tags = {
+            ...baseTags,
+            method: request.method,
+            route: normalizeRoute(request.url),
+            status_class: `${Math.floor(status / 100)}xx`,
+            error: threw || status >= 500,
+          };
+          count(HANDLER_METRICS.httpRequests, 1, tags);
+          return tags;
+        },
+      );
+    };
+  }
+
+  if (scheduled) {
+    instrumented.scheduled = (controller, env, ctx) =>
+      measure(
+        HANDLER_METRICS.scheduledDuration,
+        async () => scheduled.call(handler, controller, env, ctx),
+        histogramOptions,
+        (threw) => {
+          const tags = { ...baseTags, cron: controller.cron, error: threw };
+          count(HANDLER_METRICS.scheduledInvocations, 1, tags);
+          return tags;
+        },
+      );
+  }
+
+  if (queue) {
+    instrumented.queue = (batch, env, ctx) =>
+      measure(
+        HANDLER_METRICS.queueDuration,
+        async () => queue.call(handler, batch, env, ctx),
+        histogramOptions,
+        (threw) => {
+          const tags = { ...baseTags, queue: batch.queue, error: threw };
+          count(HANDLER_METRICS.queueBatches, 1, tags);
+          histogram(
+            HANDLER_METRICS.queueBatchSize,
+            batch.messages.length,
+            { ...histogramOptions, unit: "{message}" },
+            tags,
+          );
+          return tags;
+        },
+      );
+  }
+
+  return instrumented;
+}
@@ -0,0 +1,50 @@
+import { startTimer } from "../metrics";
+import type { HistogramOptions, Tags } from "../types";
+import { onSettled } from "../utils/settle";
+
+/**
+ * Options accepted by every instrumentation
+ */
+export interface InstrumentationOptions {
+  /**
+   * Histogram options for the duration metrics.
+   * Default: p50, p95 and p99 percentiles with avg, max and count aggregates
+   */
+  histogramOptions?: HistogramOptions;
+  /**
+   * Tags added to every metric recorded by the instrumentation
+   */
+  tags?: Tags;
+}
+
+const DEFAULT_HISTOGRAM_OPTIONS: HistogramOptions = {
+  percentiles: [0.5, 0.95, 0.99],
+  aggregates: ["avg", "max", "count"],
+};
+
+/**
+ * Resolve the histogram options of the duration metrics, recorded in `ms` by default
+ */
+export function durationHistogramOptions(
+  options: InstrumentationOptions,
+): HistogramOptions {
+  return { unit: "ms", ...(options.histogramOptions ?? DEFAULT_HISTOGRAM_OPTIONS) };
+}
+
+/**
+ * Run a sync or async function and record its duration once it has settled.
+ * `onComplete` receives whether the function failed, records the other metrics of the
+ * invocation and returns the tags of the duration metric.
+ * @returns The return value of `fn`
+ */
+export function measure<T>(
+  name: string,
+  fn: () => T,
+  histogramOptions: HistogramOptions,
+  onComplete: (failed: boolean) => Tags,
+): T {
+  const stop = startTimer(name, histogramOptions);
+  return onSettled(fn, (failed) => {
+    stop(onComplete(failed));
+  });
+}
@@ -1,6 +1,7 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import { LogsTail } from "./logsTail";
-import type { LogSink } from "./sinks/sink";
+import { type LogSink, SinkDeliveryError } from "./sinks/sink";
+import type { DeadLetterBatch } from "./deadLetter/store";
 import type { TraceItem } from "@cloudflare/workers-types";
 
 class TestLogSink implements LogSink {
@@ -189,4 +190,118 @@ describe("LogsTail", () => {
       outcome: "ok",
     });
   });
-});
\ No newline at end of file
+
+  it("should only deliver matching trace items to routed sinks", async () => {
+    const allSink = new TestLogSink();
+    const errorSink = new TestLogSink();
+    const logsTail = new LogsTail({
+      sinks: [allSink, { sink: errorSink, match: { levels: ["error"] } }],
+      maxBufferSize: 2,
+    });
+
+    const createTraceItem = (level: string) =>
+      ({
+        scriptName: "test-worker",
+        outcome: "ok",
+        eventTimestamp: Date.now(),
+        event: {},
+        diagnosticsChannelEvents: [],
+        logs: [{ level, message: [level], timestamp: Date.now() }],
+        exceptions: [],
+      }) as unknown as TraceItem;
+
+    const mockCtx = new MockExecutionContext();
+
+    logsTail.processTraceItems(
+      [createTraceItem("info"), createTraceItem("error")],
+      mockCtx,
+    );
+    await mockCtx.waitForAll();
+
+    expect(allSink.receivedLogs).toHaveLength(2);
+    expect(errorSink.receivedLogs).toHaveLength(1);
+    expect(errorSink.receivedLogs[0].logs[0].level).toBe("error");
+  });
+
+  it("should store failed batches and redeliver them on a later invocation", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const batches: DeadLetterBatch[] = [];
+    const store = {
+      put: async (batch: DeadLetterBatch) => {
+        batches.push(batch);
+      },
+      list: async () => [...batches],
+      delete: async (_kind: string, ids: string[]) => {
+        batches.splice(0, batches.length, ...batches.filter((batch) => !ids.includes(batch.id)));
+      },
+    };
+    const sink = new TestLogSink();
+    const sendLogs = vi
+      .spyOn(sink, "sendLogs")
+      .mockRejectedValueOnce(new SinkDeliveryError("down", { status: 503 }));
+    const logsTail = new LogsTail({
+      sinks: [{ sink, name: "otel" }],
+      maxBufferSize: 1,
+      retry: { maxAttempts: 1 },
+      deadLetter: { store, redeliveryIntervalMs: 0 },
+    });
+
+    const traceItem = {
+      scriptName: "test-worker",
+      outcome: "ok",
+      eventTimestamp: Date.now(),
+      event: {},
+      logs: [],
+      exceptions: [],
+    } as unknown as TraceItem;
+
+    const firstCtx = new MockExecutionContext();
+    logsTail.processTraceItems([traceItem], firstCtx);
+    await firstCtx.waitForAll();
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0]).toMatchObject({ kind: "logs", sink: "otel" });
+
+    const secondCtx = new MockExecutionContext();
+    logsTail.redeliver(secondCtx);
+    await secondCtx.waitForAll();
+
+    expect(sendLogs).toHaveBeenCalledTimes(2);
+    expect(sink.receivedLogs).toMatchObject([{ scriptName: "test-worker" }]);
+    expect(batches).toHaveLength(0);
+    vi.restoreAllMocks();
+  });
+
+  it("should not store batches the backend rejected", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const put = vi.fn(async (_batch: DeadLetterBatch) => {});
+    const sink = new TestLogSink();
+    vi.spyOn(sink, "sendLogs").mockRejectedValue(
+      new SinkDeliveryError("bad request", { status: 400 }),
+    );
+    const logsTail = new LogsTail({
+      sinks: [sink],
+      maxBufferSize: 1,
+      deadLetter: { store: { put } },
+    });
+
+    const ctx = new MockExecutionContext();
+    logsTail.processTraceItems(
+      [
+        {
+          scriptName: "test-worker",
+          outcome: "ok",
+          eventTimestamp: Date.now(),
+          event: {},
+          logs: [],
+          exceptions: [],
+        } as unknown as TraceItem,
+      ],
+      ctx,
+    );
+    await ctx.waitForAll();
+
+    expect(put).not.toHaveBeenCalled();
+    vi.restoreAllMocks();
+  });
+});
@@ -1,9 +1,29 @@
 import type { TraceItem } from "@cloudflare/workers-types";
 import type { LogSink } from "./sinks/sink";
 import { TraceItemDb } from "./traceItem";
+import {
+  findRoute,
+  type LogRoute,
+  routeName,
+  routeRetryPolicy,
+  routeSink,
+  selectTraceItems,
+} from "./routing";
+import type { DeadLetterBatch, DeadLetterOptions } from "./deadLetter/store";
+import { DeadLetterHandler, type ReplayResult } from "./deadLetter/handler";
+import {
+  isRetryableError,
+  type RetryPolicy,
+  WAIT_UNTIL_BUDGET_MS,
+  withRetry,
+} from "./retry";
 
 export interface LogTailOptions {
-  sinks: LogSink[];
+  /**
+   * Sinks receive every trace item, unless registered as a route with a selector or predicate,
+   * e.g. `{ sink: new OtelLogSink({ ... }), match: { levels: ["warn", "error"] } }`
+   */
+  sinks: (LogSink | LogRoute)[];
   /**
    * Max number of trace items to buffer before flushing.
    * Default: 25
@@ -14,23 +34,45 @@ export interface LogTailOptions {
    * Default: 5 Seconds
    */
   maxBufferDuration?: number;
+  /**
+   * Retry policy for failed deliveries, applied to each sink independently.
+   * Routes can override it with their own `retry` policy.
+   * Default: 3 attempts with exponential backoff, see `RetryPolicy`
+   */
+  retry?: RetryPolicy;
+  /**
+   * Persist batches that still fail after retries, and redeliver them on later tail invocations
+   * or with `TailExporter.redeliver` from a scheduled handler.
+   * Default: failed batches are dropped
+   */
+  deadLetter?: DeadLetterOptions;
 }
 
 export class LogsTail {
-  #logSinks: LogSink[];
+  #logSinks: (LogSink | LogRoute)[];
   #maxBufferSize: number;
   #maxBufferDuration: number;
   #flushId = 0;
   #traceItems = new TraceItemDb();
   #flushScheduled = false;
+  #retryPolicy?: RetryPolicy;
+  #deadLetter?: DeadLetterHandler<TraceItem>;
 
   constructor(options: LogTailOptions) {
     this.#logSinks = options.sinks;
     this.#maxBufferSize = options.maxBufferSize || 25;
     this.#maxBufferDuration = Math.min(options.maxBufferDuration || 5, 30);
+    this.#retryPolicy = options.retry;
+    if (options.deadLetter) {
+      this.#deadLetter = new DeadLetterHandler("logs", options.deadLetter);
+    }
   }
 
   processTraceItems(traceItems: TraceItem[], ctx: ExecutionContext): void {
+    if (this.#deadLetter?.shouldRedeliverOnTail()) {
+      this.redeliver(ctx);
+    }
+
     // Store all trace items in the buffer
     this.#traceItems.storeTraceItems(traceItems);
 
@@ -42,7 +84,7 @@ export class LogsTail {
 
       this.#flushId++;
       // Flush immediately
-      ctx.waitUntil(this.#performFlush());
+      ctx.waitUntil(this.#performFlush(Date.now() + WAIT_UNTIL_BUDGET_MS));
       return;
     }
 
@@ -53,13 +95,14 @@ export class LogsTail {
     // Only schedule flush if there are trace items to flush
     if (this.#traceItems.getTraceItems().length > 0) {
       this.#flushScheduled = true;
+      const deadline = Date.now() + WAIT_UNTIL_BUDGET_MS;
       const scheduleFlush = async () => {
         try {
           const localFlushId = ++this.#flushId;
           await scheduler.wait(this.#maxBufferDuration * 1000);
 
           if (localFlushId === this.#flushId) {
-            await this.#performFlush();
+            await this.#performFlush(deadline);
           }
         } catch (error) {}
       };
@@ -68,7 +111,47 @@ export class LogsTail {
     }
   }
 
-  async #performFlush(): Promise<void> {
+  /**
+   * Redeliver the batches in the dead-letter store to their sinks using `ctx.waitUntil`
+   */
+  redeliver(ctx: ExecutionContext): void {
+    if (this.#deadLetter) {
+      ctx.waitUntil(
+        this.#deadLetter.redeliver(
+          this.#deliverDeadLetter,
+          Date.now() + WAIT_UNTIL_BUDGET_MS,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Deliver dead-letter batches read from a store that can't be listed, like a Queue
+   */
+  async replayDeadLetters(
+    batches: DeadLetterBatch<TraceItem>[],
+    deadline = Date.now() + WAIT_UNTIL_BUDGET_MS,
+  ): Promise<ReplayResult> {
+    if (!this.#deadLetter) {
+      return {
+        delivered: [],
+        expired: [],
+        failed: batches.map((batch) => batch.id),
+      };
+    }
+    return this.#deadLetter.replay(batches, this.#deliverDeadLetter, deadline);
+  }
+
+  #deliverDeadLetter = async (sink: string, items: TraceItem[]): Promise<void> => {
+    const route = findRoute(this.#logSinks, sink);
+    if (!route) {
+      console.warn(`Discarding dead-letter batch for sink ${sink}, which isn't configured`);
+      return;
+    }
+    await routeSink(route).sendLogs(items);
+  };
+
+  async #performFlush(deadline: number): Promise<void> {
     const items = this.#traceItems.getTraceItems();
 
     // Reset batch and flush state
@@ -82,7 +165,26 @@ export class LogsTail {
 
     try {
       const results = await Promise.allSettled(
-        this.#logSinks.map((sink) => sink.sendLogs(items)),
+        this.#logSinks.map(async (route, index) => {
+          const routedItems = selectTraceItems(route, items);
+          if (routedItems.length === 0) {
+            return;
+          }
+          const policy = routeRetryPolicy(route, this.#retryPolicy);
+          try {
+            await withRetry(
+              () => routeSink(route).sendLogs(routedItems),
+              policy,
+              deadline,
+            );
+          } catch (error) {
+            // Batches the backend rejected would be rejected again, so they aren't dead-lettered
+            if ((policy.isRetryable ?? isRetryableError)(error)) {
+              await this.#deadLetter?.store(routeName(route, index), routedItems);
+            }
+            throw error;
+          }
+        }),
       );
       const successfulSinks = results.filter((el) => el.status === "fulfilled") as PromiseFulfilledResult<void>[];
       if (successfulSinks.length > 0) {
@@ -6,6 +6,7 @@ import {
   afterEach,
   beforeAll,
   afterAll,
+  vi,
 } from "vitest";
 import { subscribe, unsubscribe } from "node:diagnostics_channel";
 import { metrics } from "./index";
@@ -62,6 +63,126 @@ describe("metrics", () => {
     });
   });
 
+  describe("units and descriptions", () => {
+    it("should publish unit and description for count and gauge", () => {
+      metrics.count("test.bytes_sent", 512, {}, {
+        unit: "By",
+        description: "Bytes sent to the client",
+      });
+      metrics.gauge("test.gauge", 1);
+
+      expect(receivedMessages[0]).toEqual({
+        type: MetricType.COUNT,
+        name: "test.bytes_sent",
+        value: 512,
+        tags: {},
+        unit: "By",
+        description: "Bytes sent to the client",
+      });
+      expect(receivedMessages[1]).not.toHaveProperty("unit");
+      expect(receivedMessages[1]).not.toHaveProperty("description");
+    });
+
+    it("should lift unit and description out of histogram options", () => {
+      metrics.histogram("test.histogram", 10, {
+        percentiles: [0.5],
+        unit: "ms",
+        description: "Time spent",
+      });
+
+      expect(receivedMessages[0]).toEqual({
+        type: MetricType.HISTOGRAM,
+        name: "test.histogram",
+        value: 10,
+        tags: {},
+        options: { percentiles: [0.5] },
+        unit: "ms",
+        description: "Time spent",
+      });
+    });
+
+    it("should let timers override the default ms unit", () => {
+      metrics.startTimer("test.timer", { unit: "s" })();
+
+      expect(receivedMessages[0].unit).toBe("s");
+    });
+  });
+
+  describe("sampleRate", () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should skip publishing when the random draw exceeds the sample rate", () => {
+      vi.spyOn(Math, "random").mockReturnValue(0.5);
+
+      metrics.count("test.sampled", 1, {}, { sampleRate: 0.25 });
+
+      expect(receivedMessages).toHaveLength(0);
+    });
+
+    it("should stamp the sample rate on published payloads", () => {
+      vi.spyOn(Math, "random").mockReturnValue(0.1);
+
+      metrics.count("test.sampled", 1, {}, { sampleRate: 0.25 });
+      metrics.histogram("test.sampled_histogram", 10, {
+        percentiles: [0.5],
+        sampleRate: 0.25,
+      });
+
+      expect(receivedMessages[0]).toEqual({
+        type: MetricType.COUNT,
+        name: "test.sampled",
+        value: 1,
+        tags: {},
+        sampleRate: 0.25,
+      });
+      expect(receivedMessages[1]).toEqual({
+        type: MetricType.HISTOGRAM,
+        name: "test.sampled_histogram",
+        value: 10,
+        tags: {},
+        options: { percentiles: [0.5] },
+        sampleRate: 0.25,
+      });
+    });
+
+    it("should not stamp a sample rate of 1", () => {
+      metrics.gauge("test.unsampled", 1, {}, { sampleRate: 1 });
+
+      expect(receivedMessages).toHaveLength(1);
+      expect(receivedMessages[0]).not.toHaveProperty("sampleRate");
+    });
+  });
+
+  describe("upDownCounter", () => {
+    it("should publish up/down counter metric with negative values", () => {
+      metrics.upDownCounter("test.active_connections", -1, { region: "eu" });
+
+      expect(receivedMessages).toHaveLength(1);
+      expect(receivedMessages[0]).toEqual({
+        type: MetricType.UP_DOWN_COUNTER,
+        name: "test.active_connections",
+        value: -1,
+        tags: { region: "eu" },
+      });
+    });
+  });
+
+  describe("set", () => {
+    it("should publish set metric with an identifier value", () => {
+      metrics.set("test.unique_users", "user-123", { plan: "pro" });
+
+      expect(receivedMessages).toHaveLength(1);
+      expect(receivedMessages[0]).toEqual({
+        type: MetricType.SET,
+        name: "test.unique_users",
+        value: "user-123",
+        tags: { plan: "pro" },
+      });
+    });
+  });
+
   describe("histogram", () => {
     it("should publish histogram metric with options and tags", () => {
       const options = {
@@ -81,4 +202,304 @@ describe("metrics", () => {
       });
     });
   });
+
+  describe("startTimer", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1000);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should publish elapsed time as a histogram when stopped", () => {
+      const options = { percentiles: [0.5] };
+      const stop = metrics.startTimer("test.timer", options, { route: "/" });
+
+      vi.setSystemTime(1250);
+      const elapsed = stop({ cached: false });
+
+      expect(elapsed).toBe(250);
+      expect(receivedMessages).toHaveLength(1);
+      expect(receivedMessages[0]).toEqual({
+        type: MetricType.HISTOGRAM,
+        name: "test.timer",
+        value: 250,
+        tags: { route: "/", cached: false },
+        options,
+        unit: "ms",
+      });
+    });
+
+    it("should only publish once when stopped multiple times", () => {
+      const stop = metrics.startTimer("test.timer");
+
+      vi.setSystemTime(1100);
+      stop();
+      vi.setSystemTime(1200);
+      expect(stop()).toBe(200);
+
+      expect(receivedMessages).toHaveLength(1);
+      expect(receivedMessages[0].value).toBe(100);
+    });
+  });
+
+  describe("timed", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1000);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should time a sync function and tag it as a success", () => {
+      const result = metrics.timed(
+        "test.timed",
+        () => {
+          vi.setSystemTime(1040);
+          return "done";
+        },
+        {},
+        { op: "sync" },
+      );
+
+      expect(result).toBe("done");
+      expect(receivedMessages).toHaveLength(1);
+      expect(receivedMessages[0]).toEqual({
+        type: MetricType.HISTOGRAM,
+        name: "test.timed",
+        value: 40,
+        tags: { op: "sync", status: "success" },
+        options: {},
+        unit: "ms",
+      });
+    });
+
+    it("should tag a throwing sync function as an error and rethrow", () => {
+      expect(() =>
+        metrics.timed("test.timed", () => {
+          throw new Error("boom");
+        }),
+      ).toThrow("boom");
+
+      expect(receivedMessages).toHaveLength(1);
+      expect(receivedMessages[0].tags).toEqual({ status: "error" });
+    });
+
+    it("should time an async function once it resolves", async () => {
+      const promise = metrics.timed("test.timed", async () => {
+        await Promise.resolve();
+        vi.setSystemTime(1300);
+        return 42;
+      });
+
+      expect(receivedMessages).toHaveLength(0);
+      await expect(promise).resolves.toBe(42);
+
+      expect(receivedMessages).toHaveLength(1);
+      expect(receivedMessages[0].value).toBe(300);
+      expect(receivedMessages[0].tags).toEqual({ status: "success" });
+    });
+
+    it("should tag a rejected async function as an error", async () => {
+      const promise = metrics.timed("test.timed", async () => {
+        throw new Error("boom");
+      });
+
+      await expect(promise).rejects.toThrow("boom");
+      expect(receivedMessages).toHaveLength(1);
+      expect(receivedMessages[0].tags).toEqual({ status: "error" });
+    });
+  });
+
+  describe("createMetricsClient", () => {
+    it("should prefix names and merge default tags", () => {
+      const client = metrics.createMetricsClient({
+        prefix: "api",
+        defaultTags: { service: "users", route: "/" },
+      });
+
+      client.count("request", 1, { route: "/users" });
+      client.gauge("connections", 3);
+
+      expect(receivedMessages).toEqual([
+        {
+          type: MetricType.COUNT,
+          name: "api.request",
+          value: 1,
+          tags: { service: "users", route: "/users" },
+        },
+        {
+          type: MetricType.GAUGE,
+          name: "api.connections",
+          value: 3,
+          tags: { service: "users", route: "/" },
+        },
+      ]);
+    });
+
+    it("should merge default histogram options with call options", () => {
+      const client = metrics.createMetricsClient({
+        defaultHistogramOptions: {
+          percentiles: [0.5, 0.99],
+          aggregates: ["max"],
+        },
+      });
+
+      client.histogram("latency", 10);
+      client.histogram("size", 20, { aggregates: ["sum"] });
+
+      expect(receivedMessages[0]).toMatchObject({
+        name: "latency",
+        options: { percentiles: [0.5, 0.99], aggregates: ["max"] },
+      });
+      expect(receivedMessages[1]).toMatchObject({
+        name: "size",
+        options: { percentiles: [0.5, 0.99], aggregates: ["sum"] },
+      });
+    });
+
+    it("should create nested child clients", () => {
+      const client = metrics.createMetricsClient({
+        prefix: "api",
+        defaultTags: { service: "users" },
+        defaultHistogramOptions: { percentiles: [0.5] },
+      });
+      const child = client.child({
+        prefix: "db",
+        defaultTags: { table: "accounts" },
+        defaultHistogramOptions: { aggregates: ["avg"] },
+      });
+
+      child.histogram("query_time", 5, {}, { op: "select" });
+
+      expect(receivedMessages[0]).toEqual({
+        type: MetricType.HISTOGRAM,
+        name: "api.db.query_time",
+        value: 5,
+        tags: { service: "users", table: "accounts", op: "select" },
+        options: { percentiles: [0.5], aggregates: ["avg"] },
+      });
+    });
+
+    it("should apply the scope to timers", () => {
+      const client = metrics.createMetricsClient({
+        prefix: "api",
+        defaultTags: { service: "users" },
+      });
+
+      client.timed("handler", () => "ok");
+
+      expect(receivedMessages[0]).toMatchObject({
+        type: MetricType.HISTOGRAM,
+        name: "api.handler",
+        tags: { service: "users", status: "success" },
+      });
+    });
+  });
+
+  describe("withTags", () => {
+    it("should attach ambient tags to metrics recorded in the scope", () => {
+      metrics.withTags({ route: "/users" }, () => {
+        metrics.count("test.counter", 1, { method: "GET" });
+      });
+      metrics.count("test.counter");
+
+      expect(receivedMessages[0].tags).toEqual({
+        route: "/users",
+        method: "GET",
+      });
+      expect(receivedMessages[1].tags).toEqual({});
+    });
+
+    it("should propagate ambient tags across async boundaries", async () => {
+      const result = await metrics.withTags({ customer_tier: "gold" }, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        metrics.gauge("test.gauge", 1);
+        return "done";
+      });
+
+      expect(result).toBe("done");
+      expect(receivedMessages[0].tags).toEqual({ customer_tier: "gold" });
+    });
+
+    it("should merge nested scopes with inner tags taking precedence", () => {
+      metrics.withTags({ route: "/users", region: "eu" }, () => {
+        metrics.withTags({ route: "/users/:id" }, () => {
+          metrics.count("test.inner");
+        });
+        metrics.count("test.outer");
+      });
+
+      expect(receivedMessages[0].tags).toEqual({
+        route: "/users/:id",
+        region: "eu",
+      });
+      expect(receivedMessages[1].tags).toEqual({
+        route: "/users",
+        region: "eu",
+      });
+    });
+
+    it("should let explicit and client tags override ambient tags", () => {
+      const client = metrics.createMetricsClient({
+        defaultTags: { region: "us" },
+      });
+
+      metrics.withTags({ route: "/", region: "eu" }, () => {
+        metrics.histogram("test.histogram", 1, {}, { route: "/override" });
+        client.count("test.client");
+      });
+
+      expect(receivedMessages[0].tags).toEqual({
+        route: "/override",
+        region: "eu",
+      });
+      expect(receivedMessages[1].tags).toEqual({ route: "/", region: "us" });
+    });
+
+    it("should keep concurrent scopes isolated", async () => {
+      const run = (route: string, delay: number) =>
+        metrics.withTags({ route }, async () => {
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          metrics.count("test.concurrent");
+        });
+
+      await Promise.all([run("/a", 5), run("/b", 1)]);
+
+      expect(receivedMessages.map((m) => m.tags.route)).toEqual(["/b", "/a"]);
+    });
+  });
+
+  describe("tag normalization", () => {
+    afterEach(() => {
+      metrics.configureTagNormalization();
+    });
+
+    it("should drop nullish tags before publishing", () => {
+      metrics.count("test.counter", 1, {
+        service: "api",
+        version: undefined,
+        region: null,
+      });
+
+      expect(receivedMessages[0].tags).toEqual({ service: "api" });
+    });
+
+    it("should apply configured rules to ambient and call tags", () => {
+      metrics.configureTagNormalization({ maxValueLength: 4 });
+
+      metrics.withTags({ route: "/users/:id" }, () => {
+        metrics.count("test.counter", 1, { user_agent: "curl/8.0" });
+      });
+
+      expect(receivedMessages[0].tags).toEqual({
+        route: "/use",
+        user_agent: "curl",
+      });
+    });
+  });
 });
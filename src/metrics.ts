@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import { type Channel, channel } from "node:diagnostics_channel";
 import {
   type CountMetricPayload,
@@ -5,27 +6,107 @@ import {
   type HistogramMetricPayload,
   type HistogramOptions,
   METRICS_CHANNEL_NAME,
+  type MetricOptions,
+  type MetricPayload,
   MetricType,
+  type SetMetricOptions,
+  type SetMetricPayload,
   type Tags,
+  type UpDownCounterMetricPayload,
 } from "./types";
+import { onSettled } from "./utils/settle";
+import { type TagNormalizationOptions, TagNormalizer } from "./utils/tags";
 
 const metricsChannel: Channel = channel(METRICS_CHANNEL_NAME);
+const ambientTags = new AsyncLocalStorage<Tags>();
+let tagNormalizer = new TagNormalizer();
+
+/**
+ * Publish a metric payload, applying any ambient tags set with `withTags`.
+ * Tags on the payload take precedence over ambient tags, and the merged tags are normalized.
+ * Sampled payloads are randomly skipped according to their sample rate.
+ */
+function publish(payload: MetricPayload): void {
+  if (payload.sampleRate !== undefined && Math.random() >= payload.sampleRate) {
+    return;
+  }
+
+  const scopedTags = ambientTags.getStore();
+  payload.tags = tagNormalizer.normalize(payload.name, {
+    ...scopedTags,
+    ...payload.tags,
+  });
+
+  metricsChannel.publish(payload);
+}
+
+/**
+ * Pick the defined metric options so they are only present on the payload when set.
+ * Sample rates of 1 or more mean every call is published, so they aren't stamped.
+ */
+function metricMetadata({
+  unit,
+  description,
+  sampleRate,
+}: MetricOptions): MetricOptions {
+  return {
+    ...(unit !== undefined ? { unit } : {}),
+    ...(description !== undefined ? { description } : {}),
+    ...(sampleRate !== undefined && sampleRate < 1
+      ? { sampleRate: Math.max(sampleRate, 0) }
+      : {}),
+  };
+}
+
+/**
+ * Configure how tags are normalized before metrics are published.
+ * Pass the same options as the tail's `tagNormalization` so both apply the same rules.
+ * @param options - The normalization rules, unset rules use their defaults
+ */
+export function configureTagNormalization(
+  options: TagNormalizationOptions = {},
+): void {
+  tagNormalizer = new TagNormalizer(options);
+}
+
+/**
+ * Run a function with ambient tags that are attached to every metric recorded
+ * while it runs, including metrics recorded asynchronously or from library code.
+ *
+ * Nested calls merge their tags over the enclosing scope's tags, so an inner
+ * scope can override a tag for its own duration. Tags passed directly to a
+ * metric call always take precedence over ambient tags.
+ * @param tags - The tags to apply
+ * @param fn - The function to run
+ * @returns The return value of `fn`
+ */
+export function withTags<T>(tags: Tags, fn: () => T): T {
+  const parentTags = ambientTags.getStore();
+  return ambientTags.run({ ...parentTags, ...tags }, fn);
+}
 
 /**
  * Record a count metric
  * @param name - The metric name
  * @param value - The count value (incremented by)
  * @param tags - Optional tags
+ * @param options - Optional unit, description and sample rate
  */
-export function count(name: string, value = 1, tags: Tags = {}): void {
+export function count(
+  name: string,
+  value = 1,
+  tags: Tags = {},
+  options: MetricOptions = {},
+): void {
   const payload: CountMetricPayload = {
     type: MetricType.COUNT,
     name,
     value,
     tags,
+    ...metricMetadata(options),
   };
 
-  metricsChannel.publish(payload);
+  publish(payload);
 }
 
 /**
@@ -33,23 +114,30 @@ export function count(name: string, value = 1, tags: Tags = {}): void {
  * @param name - The metric name
  * @param value - The gauge value
  * @param tags - Optional tags
+ * @param options - Optional unit, description and sample rate
  */
-export function gauge(name: string, value: number, tags: Tags = {}): void {
+export function gauge(
+  name: string,
+  value: number,
+  tags: Tags = {},
+  options: MetricOptions = {},
+): void {
   const payload: GaugeMetricPayload = {
     type: MetricType.GAUGE,
     name,
     value,
     tags,
+    ...metricMetadata(options),
   };
 
-  metricsChannel.publish(payload);
+  publish(payload);
 }
 
 /**
  * Record a histogram metric
  * @param name - The metric name
  * @param value - The histogram value
- * @param options - Optional histogram configuration
+ * @param options - Optional histogram configuration, unit, description and sample rate
  * @param tags - Optional tags
  */
 export function histogram(
@@ -58,19 +146,271 @@ export function histogram(
   options: HistogramOptions = {},
   tags: Tags = {},
 ): void {
+  const { unit, description, sampleRate, ...histogramOptions } = options;
   const payload: HistogramMetricPayload = {
     type: MetricType.HISTOGRAM,
     name,
     value,
     tags,
-    options,
+    options: histogramOptions,
+    ...metricMetadata({ unit, description, sampleRate }),
   };
 
-  metricsChannel.publish(payload);
+  publish(payload);
+}
+
+/**
+ * Record an up/down counter metric. Unlike a count, the value can be negative,
+ * and the series is exported as a non-monotonic sum.
+ * @param name - The metric name
+ * @param value - The amount to add to the counter (negative to decrement)
+ * @param tags - Optional tags
+ * @param options - Optional unit, description and sample rate
+ */
+export function upDownCounter(
+  name: string,
+  value: number,
+  tags: Tags = {},
+  options: MetricOptions = {},
+): void {
+  const payload: UpDownCounterMetricPayload = {
+    type: MetricType.UP_DOWN_COUNTER,
+    name,
+    value,
+    tags,
+    ...metricMetadata(options),
+  };
+
+  publish(payload);
+}
+
+/**
+ * Record a value in a set metric. Only the estimated number of distinct values
+ * per flush interval is exported (as a gauge), so raw identifiers never leave the tail.
+ * @param name - The metric name
+ * @param value - The identifier to count (e.g. a user ID or API key)
+ * @param tags - Optional tags
+ * @param options - Optional unit and description. Sets can't be sampled since distinct counts can't be upscaled.
+ */
+export function set(
+  name: string,
+  value: string | number,
+  tags: Tags = {},
+  options: SetMetricOptions = {},
+): void {
+  const payload: SetMetricPayload = {
+    type: MetricType.SET,
+    name,
+    value,
+    tags,
+    ...metricMetadata({ unit: options.unit, description: options.description }),
+  };
+
+  publish(payload);
+}
+
+/**
+ * Start a timer that records its elapsed time as a histogram metric when stopped
+ * @param name - The metric name
+ * @param options - Optional histogram configuration. The unit defaults to `ms`.
+ * @param tags - Optional tags
+ * @returns A function that stops the timer, records the metric and returns the elapsed time in milliseconds.
+ * Additional tags passed to it are merged over the timer tags.
+ */
+export function startTimer(
+  name: string,
+  options: HistogramOptions = {},
+  tags: Tags = {},
+): (stopTags?: Tags) => number {
+  const start = Date.now();
+  let stopped = false;
+
+  return (stopTags: Tags = {}) => {
+    const elapsed = Date.now() - start;
+    if (!stopped) {
+      stopped = true;
+      histogram(
+        name,
+        elapsed,
+        { unit: "ms", ...options },
+        { ...tags, ...stopTags },
+      );
+    }
+    return elapsed;
+  };
+}
+
+/**
+ * Run a sync or async function and record its duration as a histogram metric.
+ * The metric is tagged with `status: "success"` or `status: "error"` depending on
+ * whether the function returned (or resolved) or threw (or rejected).
+ * @param name - The metric name
+ * @param fn - The function to time
+ * @param options - Optional histogram configuration. The unit defaults to `ms`.
+ * @param tags - Optional tags
+ * @returns The return value of `fn`
+ */
+export function timed<T>(
+  name: string,
+  fn: () => T,
+  options: HistogramOptions = {},
+  tags: Tags = {},
+): T {
+  const stop = startTimer(name, options, tags);
+  return onSettled(fn, (failed) => {
+    stop({ status: failed ? "error" : "success" });
+  });
+}
+
+export interface MetricsClientOptions {
+  /**
+   * Prefix prepended to every metric name, joined with a `.`
+   */
+  prefix?: string;
+  /**
+   * Tags added to every metric. Tags passed to individual calls take precedence.
+   */
+  defaultTags?: Tags;
+  /**
+   * Histogram options used when a histogram or timer call doesn't provide its own.
+   * Options passed to individual calls are merged over these.
+   */
+  defaultHistogramOptions?: HistogramOptions;
+}
+
+export interface MetricsClient {
+  count(name: string, value?: number, tags?: Tags, options?: MetricOptions): void;
+  gauge(name: string, value: number, tags?: Tags, options?: MetricOptions): void;
+  upDownCounter(
+    name: string,
+    value: number,
+    tags?: Tags,
+    options?: MetricOptions,
+  ): void;
+  set(
+    name: string,
+    value: string | number,
+    tags?: Tags,
+    options?: SetMetricOptions,
+  ): void;
+  histogram(
+    name: string,
+    value: number,
+    options?: HistogramOptions,
+    tags?: Tags,
+  ): void;
+  startTimer(
+    name: string,
+    options?: HistogramOptions,
+    tags?: Tags,
+  ): (stopTags?: Tags) => number;
+  timed<T>(
+    name: string,
+    fn: () => T,
+    options?: HistogramOptions,
+    tags?: Tags,
+  ): T;
+  /**
+   * Create a nested client. The child prefix is appended to this client's prefix,
+   * and its default tags and histogram options are merged over this client's.
+   */
+  child(options: MetricsClientOptions): MetricsClient;
+}
+
+function joinPrefix(prefix: string | undefined, name: string): string {
+  return prefix ? `${prefix}.${name}` : name;
+}
+
+/**
+ * Create a scoped metrics client that prefixes metric names and applies
+ * default tags and histogram options to every metric it records
+ * @param options - The client configuration
+ */
+export function createMetricsClient(
+  options: MetricsClientOptions = {},
+): MetricsClient {
+  const { prefix, defaultTags = {}, defaultHistogramOptions = {} } = options;
+
+  return {
+    count(name, value = 1, tags = {}, metricOptions = {}) {
+      count(
+        joinPrefix(prefix, name),
+        value,
+        { ...defaultTags, ...tags },
+        metricOptions,
+      );
+    },
+    gauge(name, value, tags = {}, metricOptions = {}) {
+      gauge(
+        joinPrefix(prefix, name),
+        value,
+        { ...defaultTags, ...tags },
+        metricOptions,
+      );
+    },
+    upDownCounter(name, value, tags = {}, metricOptions = {}) {
+      upDownCounter(
+        joinPrefix(prefix, name),
+        value,
+        { ...defaultTags, ...tags },
+        metricOptions,
+      );
+    },
+    set(name, value, tags = {}, metricOptions = {}) {
+      set(
+        joinPrefix(prefix, name),
+        value,
+        { ...defaultTags, ...tags },
+        metricOptions,
+      );
+    },
+    histogram(name, value, histogramOptions = {}, tags = {}) {
+      histogram(
+        joinPrefix(prefix, name),
+        value,
+        { ...defaultHistogramOptions, ...histogramOptions },
+        { ...defaultTags, ...tags },
+      );
+    },
+    startTimer(name, histogramOptions = {}, tags = {}) {
+      return startTimer(
+        joinPrefix(prefix, name),
+        { ...defaultHistogramOptions, ...histogramOptions },
+        { ...defaultTags, ...tags },
+      );
+    },
+    timed(name, fn, histogramOptions = {}, tags = {}) {
+      return timed(
+        joinPrefix(prefix, name),
+        fn,
+        { ...defaultHistogramOptions, ...histogramOptions },
+        { ...defaultTags, ...tags },
+      );
+    },
+    child(childOptions) {
+      return createMetricsClient({
+        prefix: childOptions.prefix
+          ? joinPrefix(prefix, childOptions.prefix)
+          : prefix,
+        defaultTags: { ...defaultTags, ...childOptions.defaultTags },
+        defaultHistogramOptions: {
+          ...defaultHistogramOptions,
+          ...childOptions.defaultHistogramOptions,
+        },
+      });
+    },
+  };
 }
 
 export default {
   count,
   gauge,
   histogram,
-}
+  upDownCounter,
+  set,
+  startTimer,
+  timed,
+  createMetricsClient,
+  withTags,
+  configureTagNormalization,
+};
@@ -1,9 +1,14 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
-import { MetricsDb } from "./metricsDb";
+import {
+  CARDINALITY_OVERFLOW_METRIC,
+  LATE_SAMPLES_METRIC,
+  MetricsDb,
+  OVERFLOW_TAG,
+} from "./metricsDb";
 import {
   MetricType,
-  type ExportedMetricPayload,
   type HistogramAggregates,
+  type TimestampedMetricPayload,
 } from "./types";
 
 describe("MetricsDb", () => {
@@ -40,6 +45,42 @@ describe("MetricsDb", () => {
       expect(metrics[0].lastUpdated).toBe(2000);
     });
 
+    it("should accumulate up/down counter metrics including decrements", () => {
+      const baseMetric = {
+        type: MetricType.UP_DOWN_COUNTER,
+        name: "test.active",
+        tags: { service: "api" },
+      } as const;
+
+      metricsDb.storeMetric({ ...baseMetric, value: 5, timestamp: 1000 });
+      metricsDb.storeMetric({ ...baseMetric, value: -7, timestamp: 2000 });
+
+      expect(metricsDb.getMetricCount()).toBe(1);
+      const metrics = metricsDb.getAllMetrics();
+      expect(metrics[0].type).toBe(MetricType.UP_DOWN_COUNTER);
+      expect(metrics[0].value).toBe(-2);
+      expect(metrics[0].lastUpdated).toBe(2000);
+    });
+
+    it("should scale sampled count metrics by the inverse sample rate", () => {
+      const baseMetric = {
+        type: MetricType.COUNT,
+        name: "test.counter",
+        tags: { service: "api" },
+      } as const;
+
+      metricsDb.storeMetric({ ...baseMetric, value: 1, timestamp: 1000 });
+      metricsDb.storeMetric({
+        ...baseMetric,
+        value: 2,
+        sampleRate: 0.1,
+        timestamp: 2000,
+      });
+
+      const metrics = metricsDb.getAllMetrics();
+      expect(metrics[0].value).toBe(21);
+    });
+
     it("should overwrite gauge metrics with same key", () => {
       const baseMetric = {
         type: MetricType.GAUGE,
@@ -66,7 +107,7 @@ describe("MetricsDb", () => {
     });
 
     it("should store a histogram metric", () => {
-      const metric: ExportedMetricPayload = {
+      const metric: TimestampedMetricPayload = {
         type: MetricType.HISTOGRAM,
         name: "test.histogram",
         value: 150,
@@ -85,7 +126,7 @@ describe("MetricsDb", () => {
       expect(metrics[0]).toEqual({
         type: MetricType.HISTOGRAM,
         name: "test.histogram",
-        value: [150],
+        value: expect.objectContaining({ count: 1, min: 150, max: 150 }),
         tags: { endpoint: "/api/users" },
         percentiles: [0.5, 0.95],
         aggregates: ["max", "min"],
@@ -118,10 +159,27 @@ describe("MetricsDb", () => {
 
       expect(metricsDb.getMetricCount()).toBe(1);
       const metrics = metricsDb.getAllMetrics();
-      expect(metrics[0].value).toEqual([100, 200]);
+      expect(metrics[0].value).toMatchObject({ count: 2, sum: 300, min: 100, max: 200 });
       expect(metrics[0].lastUpdated).toBe(2000);
     });
 
+    it("should count distinct set values per series", () => {
+      const baseMetric = {
+        type: MetricType.SET,
+        name: "test.unique_users",
+        tags: { service: "api" },
+      } as const;
+
+      for (const value of ["alice", "bob", "alice", 42, "42"]) {
+        metricsDb.storeMetric({ ...baseMetric, value, timestamp: 1000 });
+      }
+
+      expect(metricsDb.getMetricCount()).toBe(1);
+      const metrics = metricsDb.getAllMetrics();
+      expect(metrics[0].type).toBe(MetricType.SET);
+      expect(metrics[0].lastUpdated).toBe(1000);
+    });
+
     it("should group metric keys based on name, type, and tags", () => {
       metricsDb.storeMetric({
         type: MetricType.COUNT,
@@ -236,6 +294,52 @@ describe("MetricsDb", () => {
       });
     });
 
+    it("should export up/down counter metrics with their own type", () => {
+      vi.setSystemTime(5000);
+
+      metricsDb.storeMetric({
+        type: MetricType.UP_DOWN_COUNTER,
+        name: "test.active",
+        value: -3,
+        tags: { service: "api" },
+        timestamp: 1000,
+      });
+
+      expect(metricsDb.toMetricPayloads()).toEqual([
+        {
+          type: MetricType.UP_DOWN_COUNTER,
+          name: "test.active",
+          value: -3,
+          tags: { service: "api" },
+          timestamp: 5000,
+        },
+      ]);
+    });
+
+    it("should export sets as a gauge of the distinct count", () => {
+      vi.setSystemTime(5000);
+
+      for (const value of ["alice", "bob", "alice", "carol"]) {
+        metricsDb.storeMetric({
+          type: MetricType.SET,
+          name: "test.unique_users",
+          value,
+          tags: { service: "api" },
+          timestamp: 1000,
+        });
+      }
+
+      expect(metricsDb.toMetricPayloads()).toEqual([
+        {
+          type: MetricType.GAUGE,
+          name: "test.unique_users",
+          value: 3,
+          tags: { service: "api" },
+          timestamp: 5000,
+        },
+      ]);
+    });
+
     it("should export histogram percentiles as gauge metrics", () => {
       const mockFlushTime = 5000;
       vi.setSystemTime(mockFlushTime);
@@ -383,6 +487,128 @@ describe("MetricsDb", () => {
       });
     });
 
+    it("should carry unit and description through to exported metrics", () => {
+      vi.setSystemTime(5000);
+
+      metricsDb.storeMetric({
+        type: MetricType.HISTOGRAM,
+        name: "test.latency",
+        value: 100,
+        tags: {},
+        timestamp: 1000,
+        unit: "ms",
+        description: "Request latency",
+        options: {
+          percentiles: [0.5],
+          aggregates: ["count", "max"] as HistogramAggregates[],
+        },
+      });
+      metricsDb.storeMetric({
+        type: MetricType.HISTOGRAM,
+        name: "test.latency",
+        value: 200,
+        tags: {},
+        timestamp: 2000,
+        options: {
+          percentiles: [0.5],
+          aggregates: ["count", "max"] as HistogramAggregates[],
+        },
+      });
+
+      const payloads = metricsDb.toMetricPayloads();
+
+      expect(payloads).toContainEqual(
+        expect.objectContaining({
+          name: "test.latency.p50",
+          unit: "ms",
+          description: "Request latency",
+        }),
+      );
+      expect(payloads).toContainEqual(
+        expect.objectContaining({
+          name: "test.latency.max",
+          unit: "ms",
+          description: "Request latency",
+        }),
+      );
+      const countPayload = payloads.find(
+        (payload) => payload.name === "test.latency.count",
+      );
+      expect(countPayload).not.toHaveProperty("unit");
+      expect(countPayload?.description).toBe("Request latency");
+    });
+
+    it("should weight sampled histogram values", () => {
+      vi.setSystemTime(5000);
+      const options = {
+        percentiles: [0.5, 0.99],
+        aggregates: ["count", "sum", "avg", "max"] as HistogramAggregates[],
+      };
+
+      metricsDb.storeMetric({
+        type: MetricType.HISTOGRAM,
+        name: "test.latency",
+        value: 10,
+        tags: {},
+        timestamp: 1000,
+        options,
+      });
+      metricsDb.storeMetric({
+        type: MetricType.HISTOGRAM,
+        name: "test.latency",
+        value: 100,
+        tags: {},
+        timestamp: 1000,
+        sampleRate: 0.25,
+        options,
+      });
+
+      const values = Object.fromEntries(
+        metricsDb.toMetricPayloads().map((payload) => [payload.name, payload.value]),
+      );
+
+      // The sampled value stands in for 4 samples, so the series holds 5 samples
+      expect(values).toEqual({
+        "test.latency.p50": 100,
+        "test.latency.p99": 100,
+        "test.latency.count": 5,
+        "test.latency.sum": 410,
+        "test.latency.avg": 82,
+        "test.latency.max": 100,
+      });
+    });
+
+    it("should export histogram series with their distribution when requested", () => {
+      for (const value of [10, 20, 30]) {
+        metricsDb.storeMetric({
+          type: MetricType.HISTOGRAM,
+          name: "test.latency",
+          value,
+          tags: {},
+          timestamp: 1000,
+          unit: "ms",
+          options: { percentiles: [0.5] },
+        });
+      }
+
+      const payloads = metricsDb.toMetricPayloads(2000, { histograms: true });
+
+      expect(payloads.map((payload) => payload.name)).toEqual([
+        "test.latency",
+        "test.latency.p50",
+      ]);
+      expect(payloads[0]).toMatchObject({
+        type: MetricType.HISTOGRAM,
+        value: 3,
+        timestamp: 2000,
+        unit: "ms",
+        distribution: { count: 3, sum: 60, min: 10, max: 30 },
+      });
+      if (payloads[0].type === MetricType.HISTOGRAM) {
+        expect(payloads[0].distribution.bins).toHaveLength(3);
+      }
+    });
+
     it("should handle histogram with no percentiles or aggregates", () => {
       metricsDb.storeMetric({
         type: MetricType.HISTOGRAM,
@@ -436,4 +662,233 @@ describe("MetricsDb", () => {
       expect(metrics[0].tags).toEqual({});
     });
   });
+
+  describe("cardinality limits", () => {
+    const storeRequests = (db: MetricsDb, name: string, ids: string[]) => {
+      for (const id of ids) {
+        db.storeMetric({
+          type: MetricType.COUNT,
+          name,
+          value: 1,
+          tags: { request_id: id },
+          timestamp: 1000,
+        });
+      }
+    };
+
+    const seriesOf = (db: MetricsDb, name: string) =>
+      db
+        .getAllMetrics()
+        .filter((metric) => metric.name === name)
+        .map(({ tags, value }) => ({ tags, value }));
+
+    it("should fold new series beyond the per-metric limit into an overflow series", () => {
+      const db = new MetricsDb({ cardinalityLimits: { maxSeriesPerMetric: 2 } });
+
+      storeRequests(db, "test.requests", ["a", "b", "c", "d", "a", "c"]);
+
+      expect(seriesOf(db, "test.requests")).toEqual([
+        { tags: { request_id: "a" }, value: 2 },
+        { tags: { request_id: "b" }, value: 1 },
+        { tags: { [OVERFLOW_TAG]: true }, value: 3 },
+      ]);
+      expect(seriesOf(db, CARDINALITY_OVERFLOW_METRIC)).toEqual([
+        { tags: { metric: "test.requests" }, value: 3 },
+      ]);
+    });
+
+    it("should apply the first rule matching the metric name", () => {
+      const db = new MetricsDb({
+        cardinalityLimits: {
+          maxSeriesPerMetric: 1,
+          rules: [
+            { pattern: "http.*", maxSeries: 3 },
+            { pattern: /^http\.server/, maxSeries: 0 },
+          ],
+        },
+      });
+
+      storeRequests(db, "http.server.requests", ["a", "b", "c", "d"]);
+      storeRequests(db, "queue.messages", ["a", "b"]);
+
+      expect(seriesOf(db, "http.server.requests")).toHaveLength(4);
+      expect(seriesOf(db, "http.server.requests")[3].tags).toEqual({
+        [OVERFLOW_TAG]: true,
+      });
+      expect(seriesOf(db, "queue.messages")).toEqual([
+        { tags: { request_id: "a" }, value: 1 },
+        { tags: { [OVERFLOW_TAG]: true }, value: 1 },
+      ]);
+    });
+
+    it("should enforce the global limit across metrics and reset it on clear", () => {
+      const db = new MetricsDb({ cardinalityLimits: { maxSeries: 2 } });
+
+      storeRequests(db, "test.first", ["a", "b"]);
+      storeRequests(db, "test.second", ["a"]);
+
+      expect(seriesOf(db, "test.second")).toEqual([
+        { tags: { [OVERFLOW_TAG]: true }, value: 1 },
+      ]);
+
+      db.clearAll();
+      storeRequests(db, "test.second", ["a"]);
+
+      expect(seriesOf(db, "test.second")).toEqual([
+        { tags: { request_id: "a" }, value: 1 },
+      ]);
+    });
+
+    it("should count a series once across buckets", () => {
+      const db = new MetricsDb({
+        cardinalityLimits: { maxSeriesPerMetric: 2, maxSeries: 2 },
+        bucketing: { intervalSeconds: 10 },
+      });
+
+      for (const timestamp of [100_000, 110_000, 120_000]) {
+        for (const id of ["a", "b"]) {
+          db.storeMetric({
+            type: MetricType.COUNT,
+            name: "test.requests",
+            value: 1,
+            tags: { request_id: id },
+            timestamp,
+          });
+        }
+      }
+
+      expect(seriesOf(db, "test.requests")).toHaveLength(6);
+      expect(seriesOf(db, CARDINALITY_OVERFLOW_METRIC)).toEqual([]);
+    });
+  });
+
+  describe("aggregates", () => {
+    it("should merge the aggregates of several databases", () => {
+      const first = new MetricsDb();
+      const second = new MetricsDb();
+      const histogram = {
+        type: MetricType.HISTOGRAM as const,
+        name: "test.duration",
+        tags: {},
+        options: { aggregates: ["count", "sum"] as HistogramAggregates[] },
+      };
+
+      first.storeMetric({ type: MetricType.COUNT, name: "test.requests", value: 2, tags: {}, timestamp: 1000 });
+      first.storeMetric({ ...histogram, value: 10, timestamp: 1000 });
+      first.storeMetric({ type: MetricType.SET, name: "test.users", value: "a", tags: {}, timestamp: 1000 });
+      second.storeMetric({ type: MetricType.COUNT, name: "test.requests", value: 3, tags: {}, timestamp: 2000 });
+      second.storeMetric({ ...histogram, value: 20, sampleRate: 0.5, timestamp: 2000 });
+      second.storeMetric({ type: MetricType.SET, name: "test.users", value: "b", tags: {}, timestamp: 2000 });
+
+      const merged = new MetricsDb();
+      for (const aggregate of [...first.toAggregates(), ...second.toAggregates()]) {
+        merged.mergeAggregate(structuredClone(aggregate));
+      }
+
+      const values = Object.fromEntries(
+        merged.toMetricPayloads(5000).map((metric) => [metric.name, metric.value]),
+      );
+      expect(values).toEqual({
+        "test.requests": 5,
+        "test.duration.count": 3,
+        "test.duration.sum": 50,
+        "test.users": 2,
+      });
+      expect(merged.toMetricPayloads(5000)[0].timestamp).toBe(5000);
+    });
+
+    it("should keep the most recent gauge", () => {
+      const db = new MetricsDb();
+      const gauge = { type: MetricType.GAUGE as const, name: "test.depth", tags: {}, unit: "1" };
+
+      db.mergeAggregate({ ...gauge, value: 5, lastUpdated: 2000 });
+      db.mergeAggregate({ ...gauge, value: 3, lastUpdated: 1000 });
+
+      expect(db.getAllMetrics()).toEqual([
+        { ...gauge, value: 5, lastUpdated: 2000 },
+      ]);
+    });
+  });
+
+  describe("bucketing", () => {
+    const count = (timestamp: number, value = 1) => ({
+      type: MetricType.COUNT as const,
+      name: "test.requests",
+      value,
+      tags: {},
+      timestamp,
+    });
+
+    const exported = (db: MetricsDb, now: number) =>
+      db
+        .takeExportable(now)
+        .toMetricPayloads(now)
+        .map(({ name, value, timestamp }) => ({ name, value, timestamp }));
+
+    it("should export closed buckets with their own timestamp", () => {
+      const db = new MetricsDb({
+        bucketing: { intervalSeconds: 10, allowedLatenessSeconds: 5 },
+      });
+
+      db.storeMetrics([count(100_000), count(109_999, 2), count(110_000, 4), count(125_000, 8)]);
+
+      expect(exported(db, 125_000)).toEqual([
+        { name: "test.requests", value: 3, timestamp: 100_000 },
+        { name: "test.requests", value: 4, timestamp: 110_000 },
+      ]);
+      // The bucket starting at 120s stays open until 135s
+      expect(db.getMetricCount()).toBe(1);
+      expect(db.nextExportTime()).toBe(135_000);
+      expect(exported(db, 135_000)).toEqual([
+        { name: "test.requests", value: 8, timestamp: 120_000 },
+      ]);
+    });
+
+    it("should reassign late samples to the oldest open bucket", () => {
+      const db = new MetricsDb({
+        bucketing: { intervalSeconds: 10, allowedLatenessSeconds: 0 },
+      });
+
+      db.storeMetric(count(100_000));
+      expect(exported(db, 110_000)).toHaveLength(1);
+
+      db.storeMetric(count(105_000, 2));
+      db.storeMetric(count(112_000, 3));
+
+      expect(exported(db, 120_000)).toEqual([
+        { name: LATE_SAMPLES_METRIC, value: 1, timestamp: 110_000 },
+        { name: "test.requests", value: 5, timestamp: 110_000 },
+      ]);
+    });
+
+    it("should drop late samples when configured", () => {
+      const db = new MetricsDb({
+        bucketing: { intervalSeconds: 60, allowedLatenessSeconds: 0, lateData: "drop" },
+      });
+
+      db.takeExportable(180_000);
+      db.storeMetric(count(90_000));
+
+      expect(db.getAllMetrics()).toEqual([
+        expect.objectContaining({
+          name: LATE_SAMPLES_METRIC,
+          tags: { metric: "test.requests" },
+          value: 1,
+          bucketStart: 180_000,
+        }),
+      ]);
+    });
+
+    it("should export every series with the flush time without bucketing", () => {
+      const db = new MetricsDb();
+
+      db.storeMetrics([count(100_000), count(200_000)]);
+
+      expect(exported(db, 300_000)).toEqual([
+        { name: "test.requests", value: 2, timestamp: 300_000 },
+      ]);
+      expect(db.getMetricCount()).toBe(0);
+      expect(db.nextExportTime()).toBeUndefined();
+    });
+  });
 });
@@ -1,16 +1,29 @@
-import { calculateHistogramValue, calculatePercentile } from "./utils/maths";
+import { HyperLogLog } from "./utils/hyperloglog";
+import {
+  ddSketch,
+  type QuantileSketch,
+  type QuantileSketchFactory,
+  type QuantileSketchState,
+} from "./utils/sketch";
 import {
   type HistogramAggregates,
   type MetricPayload,
   type ExportedMetricPayload,
   MetricType,
   type Tags,
+  type TimestampedMetricPayload,
 } from "./types";
 
 interface BaseStoredMetric {
   name: string;
   tags: Tags;
   lastUpdated: number;
+  /**
+   * Start of the bucket the series aggregates, only set with bucketing
+   */
+  bucketStart?: number;
+  unit?: string;
+  description?: string;
 }
 
 interface StoredCountMetric extends BaseStoredMetric {
@@ -25,15 +38,144 @@ interface StoredGaugeMetric extends BaseStoredMetric {
 
 interface StoredHistogramMetric extends BaseStoredMetric {
   type: MetricType.HISTOGRAM;
-  value: number[];
+  value: QuantileSketch;
   percentiles?: number[];
   aggregates?: HistogramAggregates[];
 }
 
+interface StoredUpDownCounterMetric extends BaseStoredMetric {
+  type: MetricType.UP_DOWN_COUNTER;
+  value: number;
+}
+
+interface StoredSetMetric extends BaseStoredMetric {
+  type: MetricType.SET;
+  value: HyperLogLog;
+}
+
 type StoredMetric =
   | StoredCountMetric
   | StoredGaugeMetric
-  | StoredHistogramMetric;
+  | StoredHistogramMetric
+  | StoredUpDownCounterMetric
+  | StoredSetMetric;
+
+interface HistogramMetricAggregate extends Omit<StoredHistogramMetric, "value"> {
+  value: QuantileSketchState;
+}
+
+interface SetMetricAggregate extends BaseStoredMetric {
+  type: MetricType.SET;
+  value: { precision: number; registers: Uint8Array };
+}
+
+/**
+ * The mergeable state of a series, which can be sent over RPC and persisted.
+ * Histograms keep the state of their sketch and sets their HyperLogLog registers,
+ * so aggregates from several isolates can be merged into globally correct series.
+ */
+export type MetricAggregate =
+  | StoredCountMetric
+  | StoredGaugeMetric
+  | HistogramMetricAggregate
+  | StoredUpDownCounterMetric
+  | SetMetricAggregate;
+
+export interface CardinalityLimitRule {
+  /**
+   * Metric names the rule applies to, a RegExp or a name with `*` wildcards (e.g. `http.*`)
+   */
+  pattern: string | RegExp;
+  /**
+   * Max number of series (unique tag combinations) of each matching metric
+   */
+  maxSeries: number;
+}
+
+export interface CardinalityLimitOptions {
+  /**
+   * Max number of series across all metrics.
+   * Default: unlimited
+   */
+  maxSeries?: number;
+  /**
+   * Max number of series of a single metric, unless a rule matches the metric name.
+   * Default: unlimited
+   */
+  maxSeriesPerMetric?: number;
+  /**
+   * Per-metric limits, the first rule whose pattern matches the metric name is used
+   */
+  rules?: CardinalityLimitRule[];
+}
+
+export interface BucketingOptions {
+  /**
+   * Length of the buckets in seconds, e.g. 10 or 60. Buckets are aligned to multiples of the
+   * interval, and samples are aggregated into the bucket containing their event timestamp.
+   */
+  intervalSeconds: number;
+  /**
+   * How long a bucket accepts samples after it ends, in seconds.
+   * A bucket is exported by the first flush after that, with its start as timestamp.
+   * Default: 10 Seconds
+   */
+  allowedLatenessSeconds?: number;
+  /**
+   * Handling of late samples, whose bucket was already exported. `"drop"` discards them,
+   * `"reassign"` aggregates them into the oldest bucket that wasn't exported yet.
+   * Late samples are counted by the `metrics.late_samples` metric tagged with the `metric` name.
+   * Default: "reassign"
+   */
+  lateData?: "drop" | "reassign";
+}
+
+export interface MetricsDbOptions {
+  /**
+   * Limits on the number of series held until the next flush. Samples of new series
+   * beyond a limit are folded into an overflow series tagged with `__overflow__: true`,
+   * and counted by the `metrics.cardinality.overflow` metric tagged with the `metric` name.
+   */
+  cardinalityLimits?: CardinalityLimitOptions;
+  /**
+   * Aggregate samples into aligned time buckets by event timestamp instead of
+   * exporting every series with the flush time. Each bucket counts as its own series.
+   * Default: no bucketing
+   */
+  bucketing?: BucketingOptions;
+  /**
+   * Sketch summarizing the samples of each histogram series. Sketches of the same kind and
+   * configuration must be used wherever their aggregates are merged.
+   * Default: a DDSketch with a relative accuracy of 1%, see `ddSketch`
+   */
+  histogramSketch?: QuantileSketchFactory;
+}
+
+export const OVERFLOW_TAG = "__overflow__";
+export const CARDINALITY_OVERFLOW_METRIC = "metrics.cardinality.overflow";
+export const LATE_SAMPLES_METRIC = "metrics.late_samples";
+
+function matchesPattern(name: string, pattern: string | RegExp): boolean {
+  if (pattern instanceof RegExp) {
+    return pattern.test(name);
+  }
+  if (!pattern.includes("*")) {
+    return name === pattern;
+  }
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`).test(name);
+}
+
+/**
+ * Start of the aligned bucket containing a timestamp
+ */
+function bucketStartOf(timestamp: number, bucketing: BucketingOptions): number {
+  const intervalMs = bucketing.intervalSeconds * 1000;
+  return timestamp - (timestamp % intervalMs);
+}
 
 function serializeTags(tags: Tags): string {
   return Object.entries(tags)
@@ -42,22 +184,151 @@ function serializeTags(tags: Tags): string {
     .join(",");
 }
 
+/**
+ * Key identifying a series, the unique combination of a metric's name, type and tags
+ */
+export function seriesKey(metric: Pick<MetricPayload, "name" | "type" | "tags">): string {
+  return `${metric.name}:${metric.type}:${serializeTags(metric.tags)}`;
+}
+
+/**
+ * Unit and description of a metric, keeping the previously stored values
+ * when a newer payload doesn't declare them
+ */
+function metricMetadata(
+  metric: { unit?: string; description?: string },
+  existing?: { unit?: string; description?: string },
+): { unit?: string; description?: string } {
+  const unit = metric.unit ?? existing?.unit;
+  const description = metric.description ?? existing?.description;
+  return {
+    ...(unit !== undefined ? { unit } : {}),
+    ...(description !== undefined ? { description } : {}),
+  };
+}
+
 export class MetricsDb {
   private metrics: Map<string, StoredMetric> = new Map();
-  private getMetricKey(metric: MetricPayload): string {
-    const tagKey = serializeTags(metric.tags);
-    return `${metric.name}:${metric.type}:${tagKey}`;
+  private cardinalityLimits: CardinalityLimitOptions;
+  // Series held per metric name, excluding overflow series. A series is counted once
+  // however many buckets hold it.
+  private seriesKeys: Map<string, Set<string>> = new Map();
+  private totalSeriesCount = 0;
+  private bucketing?: BucketingOptions;
+  // Buckets starting before this were exported, samples for them are late
+  private exportedUntil = Number.NEGATIVE_INFINITY;
+  private histogramSketch: QuantileSketchFactory;
+
+  constructor(options: MetricsDbOptions = {}) {
+    this.cardinalityLimits = options.cardinalityLimits ?? {};
+    this.bucketing = options.bucketing;
+    this.histogramSketch = options.histogramSketch ?? ddSketch();
   }
 
-  public storeMetric(metric: ExportedMetricPayload): void {
-    const key = this.getMetricKey(metric);
+  private getMetricKey(metric: MetricPayload, bucketStart?: number): string {
+    const key = seriesKey(metric);
+    return bucketStart === undefined ? key : `${bucketStart}:${key}`;
+  }
+
+  private getSeriesLimit(name: string): number | undefined {
+    const rule = this.cardinalityLimits.rules?.find(({ pattern }) =>
+      matchesPattern(name, pattern),
+    );
+    return rule ? rule.maxSeries : this.cardinalityLimits.maxSeriesPerMetric;
+  }
+
+  private exceedsCardinalityLimit(name: string): boolean {
+    const seriesLimit = this.getSeriesLimit(name);
+    const globalLimit = this.cardinalityLimits.maxSeries;
+    return (
+      (seriesLimit !== undefined &&
+        (this.seriesKeys.get(name)?.size ?? 0) >= seriesLimit) ||
+      (globalLimit !== undefined && this.totalSeriesCount >= globalLimit)
+    );
+  }
+
+  public storeMetric(metric: TimestampedMetricPayload): void {
+    if (!this.bucketing) {
+      this.storeSample(metric);
+      return;
+    }
+
+    const bucketStart = bucketStartOf(metric.timestamp, this.bucketing);
+    if (bucketStart >= this.exportedUntil) {
+      this.storeSample(metric, bucketStart);
+      return;
+    }
+
+    const lateSample: TimestampedMetricPayload = {
+      type: MetricType.COUNT,
+      name: LATE_SAMPLES_METRIC,
+      value: 1,
+      tags: { metric: metric.name },
+      timestamp: this.exportedUntil,
+    };
+    this.writeMetric(
+      this.getMetricKey(lateSample, this.exportedUntil),
+      lateSample,
+      this.exportedUntil,
+    );
+    if (this.bucketing.lateData !== "drop") {
+      this.storeSample(metric, this.exportedUntil);
+    }
+  }
+
+  private storeSample(
+    metric: TimestampedMetricPayload,
+    bucketStart?: number,
+  ): void {
+    const key = this.getMetricKey(metric, bucketStart);
+    if (this.metrics.has(key) || this.seriesKeys.get(metric.name)?.has(seriesKey(metric))) {
+      this.writeMetric(key, metric, bucketStart);
+      return;
+    }
+
+    if (this.exceedsCardinalityLimit(metric.name)) {
+      const overflowMetric = { ...metric, tags: { [OVERFLOW_TAG]: true } };
+      this.writeMetric(
+        this.getMetricKey(overflowMetric, bucketStart),
+        overflowMetric,
+        bucketStart,
+      );
+
+      const overflowCount: TimestampedMetricPayload = {
+        type: MetricType.COUNT,
+        name: CARDINALITY_OVERFLOW_METRIC,
+        value: 1,
+        tags: { metric: metric.name },
+        timestamp: metric.timestamp,
+      };
+      this.writeMetric(
+        this.getMetricKey(overflowCount, bucketStart),
+        overflowCount,
+        bucketStart,
+      );
+      return;
+    }
+
+    this.countSeries(metric);
+    this.writeMetric(key, metric, bucketStart);
+  }
+
+  private writeMetric(
+    key: string,
+    metric: TimestampedMetricPayload,
+    bucketStart?: number,
+  ): void {
     const existingMetric = this.metrics.get(key);
+    const bucket = bucketStart !== undefined ? { bucketStart } : {};
+    // Sampled metrics represent 1 / sampleRate occurrences
+    const weight = metric.sampleRate ? 1 / metric.sampleRate : 1;
 
     switch (metric.type) {
-      case MetricType.COUNT: {
+      case MetricType.COUNT:
+      case MetricType.UP_DOWN_COUNTER: {
         const newValue = existingMetric
-          ? (existingMetric.value as number) + Number(metric.value)
-          : Number(metric.value);
+          ? (existingMetric.value as number) + Number(metric.value) * weight
+          : Number(metric.value) * weight;
 
         this.metrics.set(key, {
           type: metric.type,
@@ -65,6 +336,8 @@ export class MetricsDb {
           tags: metric.tags,
           value: newValue,
           lastUpdated: metric.timestamp,
+          ...bucket,
+          ...metricMetadata(metric, existingMetric),
         });
         break;
       }
@@ -76,35 +349,153 @@ export class MetricsDb {
           tags: metric.tags,
           value: Number(metric.value),
           lastUpdated: metric.timestamp,
+          ...bucket,
+          ...metricMetadata(metric, existingMetric),
         });
         break;
       }
 
       case MetricType.HISTOGRAM: {
-        const existingValue = existingMetric
-          ? (existingMetric.value as number[])
-          : [];
+        const sketch =
+          existingMetric?.type === MetricType.HISTOGRAM
+            ? existingMetric.value
+            : this.histogramSketch.create();
+        sketch.add(metric.value, weight);
         this.metrics.set(key, {
           type: metric.type,
           name: metric.name,
           tags: metric.tags,
           percentiles: metric.options?.percentiles,
           aggregates: metric.options?.aggregates,
-          value: [...existingValue, metric.value],
+          value: sketch,
           lastUpdated: metric.timestamp,
+          ...bucket,
+          ...metricMetadata(metric, existingMetric),
+        });
+        break;
+      }
+
+      case MetricType.SET: {
+        const sketch =
+          existingMetric?.type === MetricType.SET
+            ? existingMetric.value
+            : new HyperLogLog();
+        sketch.add(String(metric.value));
+        this.metrics.set(key, {
+          type: metric.type,
+          name: metric.name,
+          tags: metric.tags,
+          value: sketch,
+          lastUpdated: metric.timestamp,
+          ...bucket,
+          ...metricMetadata(metric, existingMetric),
         });
       }
     }
   }
 
-  public storeMetrics(
-    metrics: (MetricPayload & { timestamp: number })[],
-  ): void {
+  public storeMetrics(metrics: TimestampedMetricPayload[]): void {
     for (const metric of metrics) {
       this.storeMetric(metric);
     }
   }
 
+  /**
+   * Merge the aggregate of a series, e.g. from another isolate, into the stored series.
+   * Counts are added up, the most recent gauge wins, histogram sketches are merged and sets are unioned.
+   * Cardinality limits aren't applied, the aggregate was limited where it was recorded.
+   */
+  public mergeAggregate(aggregate: MetricAggregate): void {
+    const key = seriesKey(aggregate);
+    const incoming = this.fromAggregate(aggregate);
+    const existing = this.metrics.get(key);
+    if (!existing) {
+      this.metrics.set(key, incoming);
+      return;
+    }
+
+    const merged = {
+      lastUpdated: Math.max(existing.lastUpdated, incoming.lastUpdated),
+      ...metricMetadata(incoming, existing),
+    };
+    switch (incoming.type) {
+      case MetricType.COUNT:
+      case MetricType.UP_DOWN_COUNTER:
+        this.metrics.set(key, {
+          ...incoming,
+          ...merged,
+          value: (existing.value as number) + incoming.value,
+        });
+        break;
+      case MetricType.GAUGE:
+        if (incoming.lastUpdated >= existing.lastUpdated) {
+          this.metrics.set(key, { ...incoming, ...merged });
+        }
+        break;
+      case MetricType.HISTOGRAM: {
+        const existingHistogram = existing as StoredHistogramMetric;
+        existingHistogram.value.merge(incoming.value);
+        this.metrics.set(key, {
+          ...incoming,
+          ...merged,
+          percentiles: incoming.percentiles ?? existingHistogram.percentiles,
+          aggregates: incoming.aggregates ?? existingHistogram.aggregates,
+          value: existingHistogram.value,
+        });
+        break;
+      }
+      case MetricType.SET: {
+        const sketch = (existing as StoredSetMetric).value;
+        sketch.merge(incoming.value);
+        this.metrics.set(key, { ...incoming, ...merged, value: sketch });
+      }
+    }
+  }
+
+  /**
+   * Get the mergeable state of every stored series, see `mergeAggregate`
+   */
+  public toAggregates(): MetricAggregate[] {
+    return Array.from(this.metrics.values(), (metric): MetricAggregate => {
+      switch (metric.type) {
+        case MetricType.SET:
+          return {
+            ...metric,
+            value: {
+              precision: metric.value.precision,
+              registers: metric.value.registers.slice(),
+            },
+          };
+        case MetricType.HISTOGRAM:
+          return { ...metric, value: metric.value.toState() };
+        default:
+          return metric;
+      }
+    });
+  }
+
+  /**
+   * Restore a series from its aggregate. The bucket is dropped, merged series cover the window they are merged in.
+   */
+  private fromAggregate({ bucketStart, ...aggregate }: MetricAggregate): StoredMetric {
+    switch (aggregate.type) {
+      case MetricType.SET: {
+        const { precision, registers } = aggregate.value;
+        return {
+          ...aggregate,
+          value: HyperLogLog.fromRegisters(precision, registers),
+        };
+      }
+      case MetricType.HISTOGRAM:
+        return {
+          ...aggregate,
+          value: this.histogramSketch.fromState(aggregate.value),
+        };
+      default:
+        return aggregate;
+    }
+  }
+
   /**
    * Get all stored metrics
    */
@@ -112,8 +503,90 @@ export class MetricsDb {
     return Array.from(this.metrics.values());
   }
 
+  /**
+   * Remove the series that are ready to be exported and return them in a new database.
+   * Without bucketing every series is ready. With bucketing, the buckets that closed are,
+   * and samples for them that arrive afterwards are handled as late data.
+   * @param now - Time of the flush. Default: now
+   */
+  public takeExportable(now = Date.now()): MetricsDb {
+    const exportable = new MetricsDb({ histogramSketch: this.histogramSketch });
+    if (!this.bucketing) {
+      exportable.metrics = this.metrics;
+      this.metrics = new Map();
+      this.clearAll();
+      return exportable;
+    }
+
+    const latenessMs = (this.bucketing.allowedLatenessSeconds ?? 10) * 1000;
+    // Buckets ending before the lateness are closed
+    this.exportedUntil = Math.max(
+      this.exportedUntil,
+      bucketStartOf(now - latenessMs, this.bucketing),
+    );
+    for (const [key, metric] of this.metrics) {
+      if ((metric.bucketStart ?? 0) < this.exportedUntil) {
+        exportable.metrics.set(key, metric);
+        this.metrics.delete(key);
+      }
+    }
+    this.recountSeries();
+    return exportable;
+  }
+
+  /**
+   * Time at which the oldest stored bucket closes and `takeExportable` returns it.
+   * Undefined without bucketing, where every series is exportable, or when no series is stored.
+   */
+  public nextExportTime(): number | undefined {
+    if (!this.bucketing || this.metrics.size === 0) {
+      return undefined;
+    }
+
+    const intervalMs = this.bucketing.intervalSeconds * 1000;
+    const latenessMs = (this.bucketing.allowedLatenessSeconds ?? 10) * 1000;
+    let oldestBucket = Number.POSITIVE_INFINITY;
+    for (const metric of this.metrics.values()) {
+      oldestBucket = Math.min(oldestBucket, metric.bucketStart ?? 0);
+    }
+    return oldestBucket + intervalMs + latenessMs;
+  }
+
+  /**
+   * Count a series against the cardinality limits, unless it's counted already
+   */
+  private countSeries(metric: Pick<MetricPayload, "name" | "type" | "tags">): void {
+    const keys = this.seriesKeys.get(metric.name) ?? new Set();
+    const key = seriesKey(metric);
+    if (!keys.has(key)) {
+      keys.add(key);
+      this.seriesKeys.set(metric.name, keys);
+      this.totalSeriesCount++;
+    }
+  }
+
+  /**
+   * Recount the series the cardinality limits apply to, which exclude overflow series and self-metrics
+   */
+  private recountSeries(): void {
+    this.seriesKeys.clear();
+    this.totalSeriesCount = 0;
+    for (const metric of this.metrics.values()) {
+      if (
+        metric.tags[OVERFLOW_TAG] === true ||
+        metric.name === CARDINALITY_OVERFLOW_METRIC ||
+        metric.name === LATE_SAMPLES_METRIC
+      ) {
+        continue;
+      }
+      this.countSeries(metric);
+    }
+  }
+
   public clearAll(): void {
     this.metrics.clear();
+    this.seriesKeys.clear();
+    this.totalSeriesCount = 0;
   }
 
   public getMetricCount(): number {
@@ -122,47 +595,91 @@ export class MetricsDb {
 
   /**
    * Get the Metrics in a format ready to export to various different sinks
-   * @param flushWindowS
+   * @param flushTimestamp - Timestamp of the exported metrics, unless they have a bucket. Default: now
+   * @param options.histograms - Also export each histogram series as a HISTOGRAM metric with its distribution
    */
-  public toMetricPayloads(): ExportedMetricPayload[] {
+  public toMetricPayloads(
+    flushTimestamp = Date.now(),
+    options: { histograms?: boolean } = {},
+  ): ExportedMetricPayload[] {
     const payloads: ExportedMetricPayload[] = [];
-    const flushTimestamp = Date.now();
 
     for (const metric of this.metrics.values()) {
+      const timestamp = metric.bucketStart ?? flushTimestamp;
       switch (metric.type) {
         case MetricType.COUNT:
         case MetricType.GAUGE:
+        case MetricType.UP_DOWN_COUNTER:
           payloads.push({
             type: metric.type,
             name: metric.name,
             value: metric.value as number,
             tags: metric.tags,
-            timestamp: flushTimestamp,
+            timestamp,
+            ...metricMetadata(metric),
+          });
+          break;
+        case MetricType.SET:
+          payloads.push({
+            type: MetricType.GAUGE,
+            name: metric.name,
+            value: metric.value.count(),
+            tags: metric.tags,
+            timestamp,
+            ...metricMetadata(metric),
           });
           break;
         case MetricType.HISTOGRAM: {
-          const sortedArray = [...metric.value].sort();
+          const sketch = metric.value;
+
+          if (options.histograms) {
+            payloads.push({
+              type: MetricType.HISTOGRAM,
+              name: metric.name,
+              value: sketch.count,
+              tags: metric.tags,
+              timestamp,
+              options: {
+                percentiles: metric.percentiles,
+                aggregates: metric.aggregates,
+              },
+              distribution: {
+                count: sketch.count,
+                sum: sketch.sum,
+                min: sketch.min,
+                max: sketch.max,
+                bins: sketch.bins(),
+              },
+              ...metricMetadata(metric),
+            });
+          }
 
           for (const percentile of metric.percentiles || []) {
-            const value = calculatePercentile(sortedArray, percentile);
             payloads.push({
               type: MetricType.GAUGE,
               name: `${metric.name}.p${Math.round(percentile * 100)}`,
-              value: value,
+              value: sketch.quantile(percentile),
               tags: metric.tags,
-              timestamp: flushTimestamp,
+              timestamp,
+              ...metricMetadata(metric),
             });
           }
 
           for (const aggregate of metric.aggregates || []) {
-            const value = calculateHistogramValue(aggregate, metric.value);
+            const value = histogramAggregateValue(aggregate, sketch);
 
             payloads.push({
               type: aggregate === "count" ? MetricType.COUNT : MetricType.GAUGE,
               name: `${metric.name}.${aggregate}`,
               value: value,
               tags: metric.tags,
-              timestamp: flushTimestamp,
+              timestamp,
+              // The sample count is unitless, every other aggregate shares the histogram unit
+              ...metricMetadata(
+                aggregate === "count"
+                  ? { description: metric.description }
+                  : metric,
+              ),
             });
           }
         }
@@ -172,3 +689,39 @@ export class MetricsDb {
     return payloads;
   }
 }
+
+/**
+ * Get the metrics the series of an aggregate is exported as
+ * @param histogramSketch - Sketch the histogram aggregate was recorded with. Default: see `MetricsDbOptions`
+ */
+export function aggregateToMetricPayloads(
+  aggregate: MetricAggregate,
+  timestamp: number,
+  histogramSketch?: QuantileSketchFactory,
+): ExportedMetricPayload[] {
+  const metrics = new MetricsDb({ histogramSketch });
+  metrics.mergeAggregate(aggregate);
+  return metrics.toMetricPayloads(timestamp);
+}
+
+function histogramAggregateValue(
+  aggregate: HistogramAggregates,
+  sketch: QuantileSketch,
+): number {
+  switch (aggregate) {
+    case "count":
+      return sketch.count;
+    case "sum":
+      return sketch.sum;
+    case "min":
+      return sketch.min;
+    case "max":
+      return sketch.max;
+    case "avg":
+      return sketch.sum / sketch.count;
+    case "median":
+      return sketch.quantile(0.5);
+    default:
+      return Number.NaN;
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { deliverMetrics } from "./metricsDelivery";
+import { DeadLetterHandler } from "./deadLetter/handler";
+import { MetricsDb } from "./metricsDb";
+import { type MetricSink, SinkDeliveryError } from "./sinks/sink";
+import { type ExportedMetricPayload, MetricType } from "./types";
+
+function createSeries(): MetricsDb {
+  const series = new MetricsDb();
+  series.storeMetric({
+    type: MetricType.COUNT,
+    name: "requests",
+    value: 1,
+    tags: {},
+    timestamp: 1000,
+  });
+  return series;
+}
+
+describe("deliverMetrics", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should only compute aggregates when a sink receives them", async () => {
+    const series = createSeries();
+    const toAggregates = vi.spyOn(series, "toAggregates");
+    const sink: MetricSink = { sendMetrics: vi.fn(async () => {}) };
+
+    await deliverMetrics([sink], series, { timestamp: 5000 });
+
+    expect(sink.sendMetrics).toHaveBeenCalledWith([
+      expect.objectContaining({ name: "requests", timestamp: 5000 }),
+    ]);
+    expect(toAggregates).not.toHaveBeenCalled();
+
+    const aggregateSink: MetricSink = {
+      sendMetrics: async () => {},
+      sendAggregates: vi.fn(async () => {}),
+    };
+    await deliverMetrics([aggregateSink], createSeries(), { timestamp: 5000 });
+
+    expect(aggregateSink.sendAggregates).toHaveBeenCalledWith([
+      expect.objectContaining({ name: "requests" }),
+    ]);
+  });
+
+  it("should log failed sinks and only dead-letter retryable failures", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const put = vi.fn(async () => {});
+    const deadLetter = new DeadLetterHandler<ExportedMetricPayload>("metrics", {
+      store: { put },
+    });
+    const unavailable: MetricSink = {
+      sendMetrics: () => Promise.reject(new SinkDeliveryError("unavailable", { status: 503 })),
+    };
+    const rejecting: MetricSink = {
+      sendMetrics: () => Promise.reject(new SinkDeliveryError("bad request", { status: 400 })),
+    };
+
+    await deliverMetrics([unavailable, rejecting], createSeries(), {
+      timestamp: 5000,
+      retryPolicy: { maxAttempts: 1 },
+      deadLetter,
+    });
+
+    expect(put).toHaveBeenCalledTimes(1);
+    expect(put).toHaveBeenCalledWith(expect.objectContaining({ sink: "0" }));
+    expect(error).toHaveBeenCalledWith(
+      "Failed to flush metrics to 2 sink(s): unavailable, bad request",
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import type { DeadLetterHandler } from "./deadLetter/handler";
+import type { MetricAggregate, MetricsDb } from "./metricsDb";
+import { isRetryableError, type RetryPolicy, withRetry } from "./retry";
+import {
+  type MetricRoute,
+  receivesHistograms,
+  routeMetricDelivery,
+  routeName,
+  routeRetryPolicy,
+  routeSink,
+  selectAggregates,
+  selectMetrics,
+} from "./routing";
+import type { MetricSink } from "./sinks/sink";
+import type { ExportedMetricPayload } from "./types";
+import type { QuantileSketchFactory } from "./utils/sketch";
+
+/**
+ * Item of a metrics dead-letter batch: an exported metric, or the aggregate of a series
+ * for sinks receiving aggregates
+ */
+export type MetricDeadLetter = ExportedMetricPayload | MetricAggregate;
+
+export interface MetricsDeliveryOptions {
+  /**
+   * Timestamp of the exported series that don't have a bucket
+   */
+  timestamp: number;
+  /**
+   * Timestamp in milliseconds after which no retry is started. Default: the `waitUntil` budget from now
+   */
+  deadline?: number;
+  retryPolicy?: RetryPolicy;
+  histogramSketch?: QuantileSketchFactory;
+  /**
+   * Stores the routed metrics, or aggregates, of a sink whose delivery still failed after retries
+   */
+  deadLetter?: DeadLetterHandler<MetricDeadLetter>;
+  /**
+   * What the delivered metrics are called in the error log. Default: "metrics"
+   */
+  description?: string;
+}
+
+/**
+ * Export the series of a database and deliver them to every sink, each with its own retries.
+ * Aggregates are only computed when a sink receives them. Failed deliveries are logged,
+ * and stored in the dead-letter store when the sink's retry policy considers them retryable.
+ */
+export async function deliverMetrics(
+  sinks: (MetricSink | MetricRoute)[],
+  series: MetricsDb,
+  options: MetricsDeliveryOptions,
+): Promise<void> {
+  try {
+    const items = series.toMetricPayloads(options.timestamp, {
+      histograms: sinks.some(receivesHistograms),
+    });
+    if (items.length === 0) {
+      return;
+    }
+    const aggregates = sinks.some((route) => routeSink(route).sendAggregates)
+      ? series.toAggregates()
+      : [];
+
+    const results = await Promise.allSettled(
+      sinks.map(async (route, index) => {
+        const deliver = routeMetricDelivery(
+          route,
+          items,
+          aggregates,
+          options.histogramSketch,
+        );
+        if (!deliver) {
+          return;
+        }
+        const policy = routeRetryPolicy(route, options.retryPolicy);
+        try {
+          await withRetry(deliver, policy, options.deadline);
+        } catch (error) {
+          if (options.deadLetter && (policy.isRetryable ?? isRetryableError)(error)) {
+            if (routeSink(route).sendAggregates) {
+              await options.deadLetter.store(
+                routeName(route, index),
+                selectAggregates(route, aggregates, options.histogramSketch),
+                { aggregates: true },
+              );
+            } else {
+              await options.deadLetter.store(
+                routeName(route, index),
+                selectMetrics(route, items),
+              );
+            }
+          }
+          throw error;
+        }
+      }),
+    );
+    const errors = results.filter((el) => el.status === "rejected") as PromiseRejectedResult[];
+    if (errors.length > 0) {
+      const sinkErrors = errors.map((error) => {
+        return `${error.reason instanceof Error ? error.reason.message : String(error.reason)}`;
+      });
+      console.error(
+        `Failed to flush ${options.description ?? "metrics"} to ${errors.length} sink(s): ${sinkErrors.join(', ')}`,
+      );
+    }
+  } catch (error) {
+    console.error("Error flushing batch:", error);
+  }
+}
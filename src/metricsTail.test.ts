@@ -1,9 +1,13 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import { MetricsTail } from "./metricsTail";
-import type { MetricSink } from "./sinks/sink";
+import { type MetricSink, SinkDeliveryError } from "./sinks/sink";
 import type { MetricPayload } from "./types";
 import { MetricType, METRICS_CHANNEL_NAME } from "./types";
 import type { TraceItem } from "@cloudflare/workers-types";
+import { defineCounter, MetricRegistry, REGISTRY_DROPPED_METRIC } from "./definitions";
+import { cfTagEnricher } from "./enrichers";
+import type { DeadLetterBatch } from "./deadLetter/store";
+import type { MetricAggregate } from "./metricsDb";
 
 class TestSink implements MetricSink {
   receivedMetrics: MetricPayload[] = [];
@@ -88,6 +92,14 @@ describe("MetricsTail", () => {
       m.name.startsWith("worker.")
     );
     expect(defaultMetrics.length).toBeGreaterThan(0);
+
+    const cpuTimeMetrics = testSink.receivedMetrics.filter((m) =>
+      m.name.startsWith("worker.cpu_time."),
+    );
+    expect(cpuTimeMetrics.length).toBeGreaterThan(0);
+    for (const metric of cpuTimeMetrics) {
+      expect(metric.unit).toBe("ms");
+    }
   });
 
   it("should handle invalid metric payloads gracefully", async () => {
@@ -133,4 +145,469 @@ describe("MetricsTail", () => {
     
     expect(testSink.receivedMetrics.length).toBeGreaterThan(0);
   });
-});
\ No newline at end of file
+
+  it("should accept set metrics with string values", async () => {
+    const testSink = new TestSink();
+    const metricsTail = new MetricsTail({
+      sinks: [testSink],
+      maxBufferSize: 1,
+      defaultMetrics: {
+        cpuTime: false,
+        wallTime: false,
+        workersInvocation: false,
+      },
+    });
+
+    const mockTraceItem = {
+      scriptName: "test-worker",
+      executionModel: "isolate",
+      outcome: "ok",
+      cpuTime: 100,
+      wallTime: 150,
+      eventTimestamp: Date.now(),
+      event: {},
+      truncated: false,
+      diagnosticsChannelEvents: ["alice", "bob", "alice"].map((value) => ({
+        channel: METRICS_CHANNEL_NAME,
+        timestamp: Date.now(),
+        message: {
+          type: MetricType.SET,
+          name: "test.unique_users",
+          value,
+          tags: {},
+        },
+      })),
+      logs: [],
+      exceptions: [],
+      scriptVersion: { id: "v1" },
+    } as TraceItem;
+
+    const mockCtx = new MockExecutionContext();
+
+    metricsTail.processTraceItems([mockTraceItem], mockCtx);
+    await mockCtx.waitForAll();
+
+    expect(testSink.receivedMetrics).toHaveLength(1);
+    expect(testSink.receivedMetrics[0]).toMatchObject({
+      type: MetricType.GAUGE,
+      name: "test.unique_users",
+      value: 2,
+    });
+  });
+
+  it("should drop metrics that don't match the registry and count them", async () => {
+    const registry = new MetricRegistry();
+    defineCounter({ name: "test.counter", tagKeys: ["environment"], registry });
+
+    const testSink = new TestSink();
+    const metricsTail = new MetricsTail({
+      sinks: [testSink],
+      maxBufferSize: 1,
+      registry,
+      defaultMetrics: {
+        cpuTime: false,
+        wallTime: false,
+        workersInvocation: false,
+      },
+    });
+
+    const messages = [
+      { name: "test.counter", tags: { environment: "test" } },
+      { name: "test.counter", tags: { enviroment: "test" } },
+      { name: "test.unknown", tags: {} },
+      { name: "http.server.request.count", tags: { route: "/" } },
+    ];
+
+    const mockTraceItem = {
+      scriptName: "test-worker",
+      executionModel: "isolate",
+      outcome: "ok",
+      cpuTime: 100,
+      wallTime: 150,
+      eventTimestamp: Date.now(),
+      event: {},
+      truncated: false,
+      diagnosticsChannelEvents: messages.map(({ name, tags }) => ({
+        channel: METRICS_CHANNEL_NAME,
+        timestamp: Date.now(),
+        message: { type: MetricType.COUNT, name, value: 1, tags },
+      })),
+      logs: [],
+      exceptions: [],
+      scriptVersion: { id: "v1" },
+    } as TraceItem;
+
+    const mockCtx = new MockExecutionContext();
+
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    metricsTail.processTraceItems([mockTraceItem], mockCtx);
+    await mockCtx.waitForAll();
+
+    expect(testSink.receivedMetrics).toHaveLength(4);
+    expect(testSink.receivedMetrics).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          name: "test.counter",
+          value: 1,
+          tags: expect.objectContaining({ environment: "test", scriptName: "test-worker" }),
+        }),
+        expect.objectContaining({ name: "http.server.request.count", value: 1 }),
+        expect.objectContaining({
+          name: REGISTRY_DROPPED_METRIC,
+          value: 1,
+          tags: expect.objectContaining({ metric: "test.counter", reason: "tag_keys" }),
+        }),
+        expect.objectContaining({
+          name: REGISTRY_DROPPED_METRIC,
+          value: 1,
+          tags: expect.objectContaining({ metric: "test.unknown", reason: "undefined" }),
+        }),
+      ]),
+    );
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it("should normalize tags with the configured rules", async () => {
+    const testSink = new TestSink();
+    const metricsTail = new MetricsTail({
+      sinks: [testSink],
+      maxBufferSize: 1,
+      tagNormalization: { maxValueLength: 4 },
+      defaultMetrics: {
+        cpuTime: false,
+        wallTime: false,
+        workersInvocation: false,
+      },
+    });
+
+    const mockTraceItem = {
+      scriptName: "test-worker",
+      executionModel: "isolate",
+      outcome: "ok",
+      cpuTime: 100,
+      wallTime: 150,
+      eventTimestamp: Date.now(),
+      event: {},
+      truncated: false,
+      diagnosticsChannelEvents: [
+        {
+          channel: METRICS_CHANNEL_NAME,
+          timestamp: Date.now(),
+          message: {
+            type: MetricType.COUNT,
+            name: "test.counter",
+            value: 1,
+            tags: { "user agent": "curl/8.0", region: null },
+          },
+        },
+      ],
+      logs: [],
+      exceptions: [],
+    } as unknown as TraceItem;
+
+    const mockCtx = new MockExecutionContext();
+
+    metricsTail.processTraceItems([mockTraceItem], mockCtx);
+    await mockCtx.waitForAll();
+
+    expect(testSink.receivedMetrics[0].tags).toEqual({
+      scriptName: "test",
+      executionModel: "isol",
+      outcome: "ok",
+      trigger: "unkn",
+      user_agent: "curl",
+    });
+  });
+
+  it("should flush an open bucket once it closes without new trace items", async () => {
+    // Fake time advances by the waited duration, as it would in production
+    vi.useFakeTimers({ now: 1_000_003_000 });
+    const wait = vi
+      .spyOn(scheduler, "wait")
+      .mockImplementation(async (delay: number) => {
+        vi.advanceTimersByTime(delay);
+      });
+    const testSink = new TestSink();
+    const sendMetrics = vi.spyOn(testSink, "sendMetrics");
+    const metricsTail = new MetricsTail({
+      sinks: [testSink],
+      maxBufferSize: 1,
+      maxBufferDuration: 5,
+      bucketing: { intervalSeconds: 10, allowedLatenessSeconds: 5 },
+      defaultMetrics: {
+        cpuTime: false,
+        wallTime: false,
+        workersInvocation: false,
+      },
+    });
+
+    const now = Date.now();
+    const mockTraceItem = {
+      scriptName: "test-worker",
+      executionModel: "isolate",
+      outcome: "ok",
+      eventTimestamp: now,
+      event: {},
+      truncated: false,
+      diagnosticsChannelEvents: [
+        {
+          channel: METRICS_CHANNEL_NAME,
+          timestamp: now,
+          message: { type: MetricType.COUNT, name: "test.counter", value: 1, tags: {} },
+        },
+      ],
+      logs: [],
+      exceptions: [],
+    } as unknown as TraceItem;
+
+    const mockCtx = new MockExecutionContext();
+
+    metricsTail.processTraceItems([mockTraceItem], mockCtx);
+    await mockCtx.waitForAll();
+
+    // The full buffer only has an open bucket, so the flush waits for the buffer duration,
+    // then for the bucket starting at 1_000_000_000 to close 15 seconds later
+    expect(wait.mock.calls.map(([delay]) => delay)).toEqual([5000, 7000]);
+    expect(sendMetrics).toHaveBeenCalledTimes(1);
+    expect(testSink.receivedMetrics).toEqual([
+      expect.objectContaining({
+        name: "test.counter",
+        value: 1,
+        timestamp: 1_000_000_000,
+      }),
+    ]);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("should merge enricher tags into every metric from the trace item", async () => {
+    const testSink = new TestSink();
+    const metricsTail = new MetricsTail({
+      sinks: [testSink],
+      maxBufferSize: 2,
+      tagEnricher: cfTagEnricher,
+      defaultMetrics: {
+        cpuTime: false,
+        wallTime: false,
+        logs: false,
+        responseStatus: false,
+      },
+    });
+
+    const mockTraceItem = {
+      scriptName: "test-worker",
+      executionModel: "stateless",
+      outcome: "ok",
+      cpuTime: 100,
+      wallTime: 150,
+      eventTimestamp: Date.now(),
+      event: {
+        request: {
+          url: "https://example.com",
+          method: "GET",
+          headers: {},
+          cf: { colo: "LHR", country: "GB", asn: 13335, city: "London" },
+        },
+      },
+      truncated: false,
+      diagnosticsChannelEvents: [
+        {
+          channel: METRICS_CHANNEL_NAME,
+          timestamp: Date.now(),
+          message: {
+            type: MetricType.COUNT,
+            name: "test.counter",
+            value: 1,
+            tags: { country: "override" },
+          },
+        },
+      ],
+      logs: [],
+      exceptions: [],
+    } as unknown as TraceItem;
+
+    const mockCtx = new MockExecutionContext();
+
+    metricsTail.processTraceItems([mockTraceItem], mockCtx);
+    await mockCtx.waitForAll();
+
+    expect(testSink.receivedMetrics).toHaveLength(2);
+    const [invocation, counter] = testSink.receivedMetrics;
+    expect(invocation.tags).toMatchObject({
+      colo: "LHR",
+      country: "GB",
+      asn: 13335,
+    });
+    expect(invocation.tags).not.toHaveProperty("httpProtocol");
+    expect(invocation.tags).not.toHaveProperty("city");
+    expect(counter.tags).toMatchObject({
+      scriptName: "test-worker",
+      colo: "LHR",
+      country: "override",
+    });
+  });
+
+  it("should relabel metrics before storing them", async () => {
+    const testSink = new TestSink();
+    const metricsTail = new MetricsTail({
+      sinks: [testSink],
+      maxBufferSize: 1,
+      relabel: [
+        { action: "drop", name: "worker\\..*" },
+        { action: "rename", regex: "legacy_(.*)", replacement: "app.$1" },
+        { action: "keepTags", tags: ["scriptName", "route"] },
+      ],
+    });
+
+    const mockTraceItem = {
+      scriptName: "test-worker",
+      executionModel: "stateless",
+      outcome: "ok",
+      cpuTime: 100,
+      wallTime: 150,
+      eventTimestamp: Date.now(),
+      event: {},
+      truncated: false,
+      diagnosticsChannelEvents: [
+        {
+          channel: METRICS_CHANNEL_NAME,
+          timestamp: Date.now(),
+          message: {
+            type: MetricType.COUNT,
+            name: "legacy_hits",
+            value: 1,
+            tags: { route: "/users", request_id: "abc" },
+          },
+        },
+      ],
+      logs: [],
+      exceptions: [],
+    } as unknown as TraceItem;
+
+    const mockCtx = new MockExecutionContext();
+
+    metricsTail.processTraceItems([mockTraceItem], mockCtx);
+    await mockCtx.waitForAll();
+
+    expect(testSink.receivedMetrics).toEqual([
+      expect.objectContaining({
+        name: "app.hits",
+        tags: { scriptName: "test-worker", route: "/users" },
+      }),
+    ]);
+  });
+
+  it("should retry a failing sink without delaying the others", async () => {
+    const healthySink = new TestSink();
+    const deliveredAt: Record<string, number> = {};
+    let attempts = 0;
+    const flakySink: MetricSink = {
+      async sendMetrics() {
+        attempts++;
+        if (attempts === 1) {
+          throw new SinkDeliveryError("HTTP 503", { status: 503 });
+        }
+        deliveredAt.flaky = Date.now();
+      },
+    };
+    const metricsTail = new MetricsTail({
+      sinks: [
+        { sink: flakySink, retry: { initialDelayMs: 50 } },
+        {
+          sink: {
+            async sendMetrics(metrics) {
+              deliveredAt.healthy = Date.now();
+              await healthySink.sendMetrics(metrics);
+            },
+          },
+        },
+      ],
+      maxBufferSize: 1,
+      retry: { maxAttempts: 2 },
+    });
+
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    const mockCtx = new MockExecutionContext();
+    metricsTail.processTraceItems(
+      [
+        {
+          scriptName: "test-worker",
+          outcome: "ok",
+          cpuTime: 1,
+          wallTime: 1,
+          eventTimestamp: Date.now(),
+          event: {},
+          diagnosticsChannelEvents: [],
+          logs: [],
+          exceptions: [],
+        } as unknown as TraceItem,
+      ],
+      mockCtx,
+    );
+    await mockCtx.waitForAll();
+    vi.restoreAllMocks();
+
+    expect(attempts).toBe(2);
+    expect(healthySink.receivedMetrics.length).toBeGreaterThan(0);
+    expect(deliveredAt.flaky - deliveredAt.healthy).toBeGreaterThanOrEqual(40);
+  });
+
+  it("should dead-letter aggregates and redeliver them with sendAggregates", async () => {
+    const stored: DeadLetterBatch[] = [];
+    const received: MetricAggregate[] = [];
+    let available = false;
+    const aggregateSink: MetricSink = {
+      sendMetrics: vi.fn(async () => {}),
+      async sendAggregates(aggregates) {
+        if (!available) {
+          throw new SinkDeliveryError("unavailable");
+        }
+        received.push(...aggregates);
+      },
+    };
+    const metricsTail = new MetricsTail({
+      sinks: [{ sink: aggregateSink, name: "aggregator" }],
+      maxBufferSize: 1,
+      retry: { maxAttempts: 1 },
+      deadLetter: {
+        store: { put: async (batch) => void stored.push(batch) },
+        redeliverOnTail: false,
+      },
+    });
+
+    const mockCtx = new MockExecutionContext();
+    metricsTail.processTraceItems(
+      [
+        {
+          scriptName: "test-worker",
+          outcome: "ok",
+          cpuTime: 1,
+          wallTime: 1,
+          eventTimestamp: Date.now(),
+          event: {},
+          diagnosticsChannelEvents: [],
+          logs: [],
+          exceptions: [],
+        } as unknown as TraceItem,
+      ],
+      mockCtx,
+    );
+    await mockCtx.waitForAll();
+
+    expect(stored).toEqual([
+      expect.objectContaining({ sink: "aggregator", aggregates: true }),
+    ]);
+
+    available = true;
+    const result = await metricsTail.replayDeadLetters(stored as DeadLetterBatch<MetricAggregate>[]);
+
+    expect(result.delivered).toEqual([stored[0].id]);
+    expect(received).toEqual(stored[0].items);
+    expect(received.find((aggregate) => aggregate.name === "worker.cpu_time")).toMatchObject({
+      type: MetricType.HISTOGRAM,
+      value: expect.objectContaining({ count: 1 }),
+    });
+    expect(aggregateSink.sendMetrics).not.toHaveBeenCalled();
+  });
+});
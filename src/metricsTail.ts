@@ -1,16 +1,48 @@
-import { METRICS_CHANNEL_NAME, type MetricPayload, MetricType } from "./types";
-import { MetricsDb } from "./metricsDb";
+import {
+  type ExportedMetricPayload,
+  METRICS_CHANNEL_NAME,
+  type MetricPayload,
+  MetricType,
+  type Tags,
+  type TimestampedMetricPayload,
+} from "./types";
+import {
+  type BucketingOptions,
+  type CardinalityLimitOptions,
+  type MetricAggregate,
+  MetricsDb,
+} from "./metricsDb";
 import type { TraceItem } from "@cloudflare/workers-types";
 import type { MetricSink } from "./sinks/sink";
 import { getEventTrigger } from "./utils/cloudflare";
+import { type MetricRegistry, registryDroppedMetric } from "./definitions";
+import type { TagEnricher } from "./enrichers";
+import { type RelabelRule, Relabeler } from "./relabel";
+import { findRoute, type MetricRoute, routeSink } from "./routing";
+import type { DeadLetterBatch, DeadLetterOptions } from "./deadLetter/store";
+import { DeadLetterHandler, type ReplayResult } from "./deadLetter/handler";
+import { type RetryPolicy, WAIT_UNTIL_BUDGET_MS } from "./retry";
+import { deliverMetrics, type MetricDeadLetter } from "./metricsDelivery";
+import { type TagNormalizationOptions, TagNormalizer } from "./utils/tags";
+import type { QuantileSketchFactory } from "./utils/sketch";
+import {
+  collectDefaultMetrics,
+  type DefaultMetricsOptions,
+  type ResolvedDefaultMetrics,
+  resolveDefaultMetrics,
+} from "./defaultMetrics";
 
 export interface MetricTailOptions {
-  sinks: MetricSink[];
-  defaultMetrics?: {
-    cpuTime?: boolean; // default: true;
-    wallTime?: boolean; // default: true;
-    workersInvocation?: boolean; // default: true;
-  };
+  /**
+   * Sinks receive every metric, unless registered as a route with a selector or predicate,
+   * e.g. `{ sink: new DatadogMetricSink(), match: { namePrefix: "checkout." } }`
+   */
+  sinks: (MetricSink | MetricRoute)[];
+  /**
+   * Metrics derived from every trace item. Each default metric is enabled unless set to `false`,
+   * and can be renamed or given extra tags with an options object.
+   */
+  defaultMetrics?: DefaultMetricsOptions;
   /**
    * Max number of unique metrics to buffer before flushing.
    * Metric Uniqueness is defined by a combination of name and tags
@@ -22,35 +54,107 @@ export interface MetricTailOptions {
    * Default: 5 Seconds
    */
   maxBufferDuration?: number;
+  /**
+   * Registry of metric definitions to validate incoming metrics against.
+   * Metrics that aren't defined, are recorded with a different type, or use
+   * tag keys that aren't part of their definition are dropped with a warning.
+   * Default: no validation
+   */
+  registry?: MetricRegistry;
+  /**
+   * Rules used to normalize the tags of every metric, including the default metrics.
+   * Use the same rules as `configureTagNormalization` in the producer so tags are consistent.
+   * Default: the default normalization rules
+   */
+  tagNormalization?: TagNormalizationOptions;
+  /**
+   * Derive extra tags from each trace item, e.g. `cfTagEnricher`.
+   * The tags are added to every metric from the trace item, including default metrics,
+   * and take precedence over the global tags. Tags set on a metric take precedence over them.
+   */
+  tagEnricher?: TagEnricher;
+  /**
+   * Limits on the number of series buffered until the next flush, globally, per metric,
+   * and per metric name pattern. Samples of new series beyond a limit are folded into an
+   * `__overflow__` series and counted by the `metrics.cardinality.overflow` metric.
+   * Default: unlimited
+   */
+  cardinalityLimits?: CardinalityLimitOptions;
+  /**
+   * Aggregate metrics into aligned time buckets by event timestamp, e.g. `{ intervalSeconds: 10 }`.
+   * Each bucket is exported with its start as timestamp by the first flush after it closed,
+   * so delayed trace items are attributed to the right interval. See `BucketingOptions`.
+   * Default: metrics are exported with the flush time
+   */
+  bucketing?: BucketingOptions;
+  /**
+   * Sketch summarizing the samples of each histogram series, which percentiles and aggregates
+   * are estimated from. Use the same sketch in a `MetricsAggregatorDurableObject`.
+   * Default: a DDSketch with a relative accuracy of 1%, see `ddSketch`
+   */
+  histogramSketch?: QuantileSketchFactory;
+  /**
+   * Rules applied in order to every metric before it is stored, to drop metrics,
+   * rename them, and drop, keep, rewrite or add tags. See `RelabelRule`.
+   * Default: no rules
+   */
+  relabel?: RelabelRule[];
+  /**
+   * Retry policy for failed deliveries, applied to each sink independently.
+   * Routes can override it with their own `retry` policy.
+   * Default: 3 attempts with exponential backoff, see `RetryPolicy`
+   */
+  retry?: RetryPolicy;
+  /**
+   * Persist batches that still fail after retries, and redeliver them on later tail invocations
+   * or with `TailExporter.redeliver` from a scheduled handler.
+   * Default: failed batches are dropped
+   */
+  deadLetter?: DeadLetterOptions;
 }
 
 export class MetricsTail {
-  #metricSinks: MetricSink[];
+  #metricSinks: (MetricSink | MetricRoute)[];
   #maxBufferSize: number;
   #maxBufferDuration: number;
   #flushId = 0;
-  #metrics = new MetricsDb();
+  #metrics: MetricsDb;
   #flushScheduled = false;
-  #defaultMetricsEnabled: {
-    cpuTime: boolean;
-    wallTime: boolean;
-    workersInvocation: boolean;
-  };
+  #registry?: MetricRegistry;
+  #tagNormalizer: TagNormalizer;
+  #tagEnricher?: TagEnricher;
+  #relabeler: Relabeler;
+  #retryPolicy?: RetryPolicy;
+  #defaultMetrics: ResolvedDefaultMetrics;
+  #deadLetter?: DeadLetterHandler<MetricDeadLetter>;
+  #histogramSketch?: QuantileSketchFactory;
 
   constructor(options: MetricTailOptions) {
     this.#metricSinks = options.sinks;
     this.#maxBufferSize = options.maxBufferSize || 100;
     this.#maxBufferDuration = Math.min(options.maxBufferDuration || 5, 30);
-
-    // Set default metrics configuration (all enabled by default)
-    this.#defaultMetricsEnabled = {
-      cpuTime: options.defaultMetrics?.cpuTime !== false,
-      wallTime: options.defaultMetrics?.wallTime !== false,
-      workersInvocation: options.defaultMetrics?.workersInvocation !== false,
-    };
+    this.#registry = options.registry;
+    this.#tagNormalizer = new TagNormalizer(options.tagNormalization);
+    this.#tagEnricher = options.tagEnricher;
+    this.#relabeler = new Relabeler(options.relabel ?? []);
+    this.#retryPolicy = options.retry;
+    if (options.deadLetter) {
+      this.#deadLetter = new DeadLetterHandler("metrics", options.deadLetter);
+    }
+    this.#metrics = new MetricsDb({
+      cardinalityLimits: options.cardinalityLimits,
+      bucketing: options.bucketing,
+      histogramSketch: options.histogramSketch,
+    });
+    this.#histogramSketch = options.histogramSketch;
+    this.#defaultMetrics = resolveDefaultMetrics(options.defaultMetrics);
   }
 
   processTraceItems(traceItems: TraceItem[], ctx: ExecutionContext): void {
+    if (this.#deadLetter?.shouldRedeliverOnTail()) {
+      this.redeliver(ctx);
+    }
+
     for (const traceItem of traceItems) {
       const metricEvents = traceItem.diagnosticsChannelEvents.filter(
         (el) => el.channel === METRICS_CHANNEL_NAME,
@@ -64,19 +168,34 @@ export class MetricsTail {
         outcome: traceItem.outcome,
         versionId: traceItem.scriptVersion?.id,
         trigger,
+        ...this.#enrichTags(traceItem),
       };
 
       // Add default metrics if enabled
-      this.#addDefaultMetrics(traceItem, globalTags);
+      for (const metric of collectDefaultMetrics(
+        traceItem,
+        globalTags,
+        this.#defaultMetrics,
+      )) {
+        this.#storeMetric(metric);
+      }
 
       for (const event of metricEvents) {
         const message = event.message;
         if (isValidMetric(message)) {
-          this.#metrics.storeMetric({
-            ...message,
+          const violation = this.#registry?.check(message);
+          if (violation) {
+            console.warn(`Dropping metric: ${violation.message}`);
+          }
+          const metric = violation
+            ? registryDroppedMetric(message, violation)
+            : message;
+
+          this.#storeMetric({
+            ...metric,
             tags: {
               ...globalTags,
-              ...message.tags,
+              ...metric.tags,
             },
             timestamp: event.timestamp,
           });
@@ -86,14 +205,19 @@ export class MetricsTail {
       }
     }
 
-    if (this.#metrics.getMetricCount() >= this.#maxBufferSize) {
+    // With bucketing, a full buffer of open buckets has nothing to export yet
+    const nextExport = this.#metrics.nextExportTime();
+    if (
+      this.#metrics.getMetricCount() >= this.#maxBufferSize &&
+      (nextExport === undefined || nextExport <= Date.now())
+    ) {
       if (this.#flushScheduled) {
         this.#flushScheduled = false;
       }
 
       this.#flushId++;
       // Flush immediately
-      ctx.waitUntil(this.#performFlush());
+      ctx.waitUntil(this.#performFlush(Date.now() + WAIT_UNTIL_BUDGET_MS));
       return;
     }
 
@@ -104,13 +228,14 @@ export class MetricsTail {
     // Only schedule flush if there are metrics to flush
     if (this.#metrics.getMetricCount() > 0) {
       this.#flushScheduled = true;
+      const deadline = Date.now() + WAIT_UNTIL_BUDGET_MS;
       const scheduleFlush = async () => {
         try {
           const localFlushId = ++this.#flushId;
           await scheduler.wait(this.#maxBufferDuration * 1000);
 
           if (localFlushId === this.#flushId) {
-            await this.#performFlush();
+            await this.#performFlush(deadline);
           }
         } catch (error) {}
       };
@@ -119,74 +244,117 @@ export class MetricsTail {
     }
   }
 
-  async #performFlush(): Promise<void> {
-    const items = this.#metrics.toMetricPayloads();
+  /**
+   * Redeliver the batches in the dead-letter store to their sinks using `ctx.waitUntil`
+   */
+  redeliver(ctx: ExecutionContext): void {
+    if (this.#deadLetter) {
+      ctx.waitUntil(
+        this.#deadLetter.redeliver(
+          this.#deliverDeadLetter,
+          Date.now() + WAIT_UNTIL_BUDGET_MS,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Deliver dead-letter batches read from a store that can't be listed, like a Queue
+   */
+  async replayDeadLetters(
+    batches: DeadLetterBatch<MetricDeadLetter>[],
+    deadline = Date.now() + WAIT_UNTIL_BUDGET_MS,
+  ): Promise<ReplayResult> {
+    if (!this.#deadLetter) {
+      return {
+        delivered: [],
+        expired: [],
+        failed: batches.map((batch) => batch.id),
+      };
+    }
+    return this.#deadLetter.replay(batches, this.#deliverDeadLetter, deadline);
+  }
 
-    // Reset batch and flush state
+  #deliverDeadLetter = async (
+    sink: string,
+    items: MetricDeadLetter[],
+    batch: DeadLetterBatch<MetricDeadLetter>,
+  ): Promise<void> => {
+    const route = findRoute(this.#metricSinks, sink);
+    if (!route) {
+      console.warn(`Discarding dead-letter batch for sink ${sink}, which isn't configured`);
+      return;
+    }
+    const metricSink = routeSink(route);
+    if (!batch.aggregates) {
+      await metricSink.sendMetrics(items as ExportedMetricPayload[]);
+    } else if (metricSink.sendAggregates) {
+      await metricSink.sendAggregates(items as MetricAggregate[]);
+    } else {
+      console.warn(
+        `Discarding dead-letter batch of aggregates for sink ${sink}, which doesn't receive aggregates`,
+      );
+    }
+  };
+
+  async #performFlush(deadline: number): Promise<void> {
+    const exportable = this.#metrics.takeExportable();
+
+    // Reset flush state
     this.#flushScheduled = false;
-    this.#metrics.clearAll();
 
-    // Skip if no items to flush
-    if (items.length === 0) {
+    await deliverMetrics(this.#metricSinks, exportable, {
+      timestamp: Date.now(),
+      deadline,
+      retryPolicy: this.#retryPolicy,
+      histogramSketch: this.#histogramSketch,
+      deadLetter: this.#deadLetter,
+    });
+
+    await this.#flushOpenBuckets(deadline);
+  }
+
+  /**
+   * With bucketing, flush again once the oldest open bucket closes when that's within the
+   * `waitUntil` budget, so it's exported without waiting for new trace items.
+   * A flush scheduled in the meantime takes over.
+   */
+  async #flushOpenBuckets(deadline: number): Promise<void> {
+    const nextExport = this.#metrics.nextExportTime();
+    if (nextExport === undefined || nextExport >= deadline || this.#flushScheduled) {
       return;
     }
 
-    try {
-      const results = await Promise.allSettled(
-        this.#metricSinks.map((sink) => sink.sendMetrics(items)),
-      );
-      const errors = results.filter((el) => el.status === "rejected") as PromiseRejectedResult[];
-      if (errors.length > 0) {
-        const sinkErrors = errors.map((error) => {
-          return `${error.reason instanceof Error ? error.reason.message : String(error.reason)}`;
-        });
-        console.error(`Failed to flush metrics to ${errors.length} sink(s): ${sinkErrors.join(', ')}`);
-      }
-    } catch (error) {
-      console.error("Error flushing batch:", error);
+    const localFlushId = ++this.#flushId;
+    await scheduler.wait(Math.max(nextExport - Date.now(), 0));
+    if (localFlushId === this.#flushId) {
+      await this.#performFlush(deadline);
     }
   }
 
-  #addDefaultMetrics(
-    traceItem: TraceItem,
-    globalTags: Record<string, string | number | boolean | undefined | null>,
-  ): void {
-    if (this.#defaultMetricsEnabled.cpuTime) {
-      this.#metrics.storeMetric({
-        type: MetricType.HISTOGRAM,
-        name: "worker.cpu_time",
-        value: traceItem.cpuTime,
-        tags: globalTags,
-        timestamp: traceItem.eventTimestamp || Date.now(),
-        options: {
-          aggregates: ["max", "min", "avg"],
-          percentiles: [0.5, 0.75, 0.9, 0.95, 0.99],
-        },
-      });
+  #enrichTags(traceItem: TraceItem): Tags {
+    if (!this.#tagEnricher) {
+      return {};
     }
 
-    if (this.#defaultMetricsEnabled.wallTime) {
-      this.#metrics.storeMetric({
-        type: MetricType.HISTOGRAM,
-        name: "worker.wall_time",
-        value: traceItem.wallTime,
-        tags: globalTags,
-        timestamp: traceItem.eventTimestamp || Date.now(),
-        options: {
-          aggregates: ["max", "min", "avg"],
-          percentiles: [0.5, 0.75, 0.9, 0.95, 0.99],
-        },
-      });
+    try {
+      return this.#tagEnricher(traceItem);
+    } catch (error) {
+      console.warn("Tag enricher failed:", error);
+      return {};
     }
-    if (this.#defaultMetricsEnabled.workersInvocation) {
-      this.#metrics.storeMetric({
-        type: MetricType.COUNT,
-        name: "worker.invocation",
-        value: 1,
-        tags: globalTags,
-        timestamp: traceItem.eventTimestamp || Date.now(),
-      });
+  }
+
+  #storeMetric(metric: TimestampedMetricPayload): void {
+    const relabeled = this.#relabeler.relabel(metric);
+    if (!relabeled) {
+      return;
     }
+
+    this.#metrics.storeMetric({
+      ...relabeled,
+      tags: this.#tagNormalizer.normalize(relabeled.name, relabeled.tags),
+    });
   }
 }
 
@@ -210,9 +378,23 @@ function isValidMetric(message: unknown): message is MetricPayload {
     return false;
   }
 
-  // Validate field types (same for all metric types)
+  // Sets count distinct identifiers, every other metric type records a number
+  const validValue =
+    metricMsg.type === MetricType.SET
+      ? typeof metricMsg.value === "string" ||
+        typeof metricMsg.value === "number"
+      : typeof metricMsg.value === "number";
+
+  // Sample rates are stamped by the producer and must be a fraction in (0, 1]
+  const validSampleRate =
+    metricMsg.sampleRate === undefined ||
+    (typeof metricMsg.sampleRate === "number" &&
+      metricMsg.sampleRate > 0 &&
+      metricMsg.sampleRate <= 1);
+
   return (
-    typeof metricMsg.value === "number" &&
+    validValue &&
+    validSampleRate &&
     typeof metricMsg.name === "string" &&
     typeof metricMsg.tags === "object"
   );
@@ -0,0 +1,187 @@
+import { describe, it, expect } from "vitest";
+import { Relabeler } from "./relabel";
+import { MetricType, type TimestampedMetricPayload } from "./types";
+
+function createMetric(
+  overrides: Partial<TimestampedMetricPayload> = {},
+): TimestampedMetricPayload {
+  return {
+    type: MetricType.COUNT,
+    name: "http.requests",
+    value: 1,
+    tags: { method: "GET", path: "/users/42", scriptName: "api" },
+    timestamp: 1000,
+    ...overrides,
+  } as TimestampedMetricPayload;
+}
+
+describe("Relabeler", () => {
+  it("should leave metrics unchanged without rules", () => {
+    const metric = createMetric();
+
+    expect(new Relabeler([]).relabel(metric)).toEqual(metric);
+  });
+
+  describe("keep and drop", () => {
+    it("should keep only metrics whose name matches", () => {
+      const relabeler = new Relabeler([{ action: "keep", name: "http\\..*" }]);
+
+      expect(relabeler.relabel(createMetric())).toBeDefined();
+      expect(relabeler.relabel(createMetric({ name: "queue.size" }))).toBeUndefined();
+    });
+
+    it("should drop metrics whose name matches", () => {
+      const relabeler = new Relabeler([{ action: "drop", name: "debug\\..*" }]);
+
+      expect(relabeler.relabel(createMetric({ name: "debug.cache" }))).toBeUndefined();
+      expect(relabeler.relabel(createMetric())).toBeDefined();
+    });
+
+    it("should anchor string patterns to the whole name", () => {
+      const relabeler = new Relabeler([{ action: "drop", name: "requests" }]);
+
+      expect(relabeler.relabel(createMetric())).toBeDefined();
+      expect(relabeler.relabel(createMetric({ name: "requests" }))).toBeUndefined();
+    });
+
+    it("should use RegExp patterns as they are", () => {
+      const relabeler = new Relabeler([{ action: "drop", name: /requests/ }]);
+
+      expect(relabeler.relabel(createMetric())).toBeUndefined();
+    });
+
+    it("should match global RegExps consistently across metrics", () => {
+      const relabeler = new Relabeler([{ action: "keep", name: /^http/g }]);
+
+      expect(relabeler.relabel(createMetric())).toBeDefined();
+      expect(relabeler.relabel(createMetric())).toBeDefined();
+    });
+  });
+
+  describe("tags", () => {
+    it("should drop tags whose key matches", () => {
+      const relabeler = new Relabeler([
+        { action: "dropTags", tags: ["path", /^script/] },
+      ]);
+
+      expect(relabeler.relabel(createMetric())?.tags).toEqual({ method: "GET" });
+    });
+
+    it("should keep only tags whose key matches", () => {
+      const relabeler = new Relabeler([{ action: "keepTags", tags: ["method"] }]);
+
+      expect(relabeler.relabel(createMetric())?.tags).toEqual({ method: "GET" });
+    });
+
+    it("should only change tags of metrics in scope", () => {
+      const relabeler = new Relabeler([
+        { action: "dropTags", name: "queue\\..*", tags: ["path"] },
+      ]);
+
+      expect(relabeler.relabel(createMetric())?.tags).toHaveProperty("path");
+      expect(
+        relabeler.relabel(createMetric({ name: "queue.size" }))?.tags,
+      ).not.toHaveProperty("path");
+    });
+
+    it("should rewrite tag values with capture groups", () => {
+      const relabeler = new Relabeler([
+        {
+          action: "replaceTag",
+          tag: "path",
+          regex: "/users/\\d+",
+          replacement: "/users/:id",
+        },
+        {
+          action: "replaceTag",
+          tag: "path",
+          regex: "/(\\w+)/.*",
+          replacement: "$1",
+          targetTag: "resource",
+        },
+      ]);
+
+      expect(relabeler.relabel(createMetric())?.tags).toEqual({
+        method: "GET",
+        path: "/users/:id",
+        resource: "users",
+        scriptName: "api",
+      });
+    });
+
+    it("should leave tag values that don't match or are missing", () => {
+      const relabeler = new Relabeler([
+        { action: "replaceTag", tag: "path", regex: "/orders/.*", replacement: "x" },
+        { action: "replaceTag", tag: "status", regex: ".*", replacement: "x" },
+      ]);
+
+      expect(relabeler.relabel(createMetric())?.tags).toEqual(createMetric().tags);
+    });
+
+    it("should match non-string tag values as strings", () => {
+      const relabeler = new Relabeler([
+        { action: "replaceTag", tag: "status", regex: "(\\d)\\d\\d", replacement: "$1xx" },
+      ]);
+
+      expect(
+        relabeler.relabel(createMetric({ tags: { status: 404 } }))?.tags,
+      ).toEqual({ status: "4xx" });
+    });
+
+    it("should add constant tags, overwriting existing ones", () => {
+      const relabeler = new Relabeler([
+        { action: "addTags", tags: { env: "production", scriptName: "gateway" } },
+      ]);
+
+      expect(relabeler.relabel(createMetric())?.tags).toEqual({
+        method: "GET",
+        path: "/users/42",
+        scriptName: "gateway",
+        env: "production",
+      });
+    });
+  });
+
+  describe("rename", () => {
+    it("should rewrite matching metric names", () => {
+      const relabeler = new Relabeler([
+        { action: "rename", regex: "legacy_(.*)", replacement: "app.$1" },
+      ]);
+
+      expect(relabeler.relabel(createMetric({ name: "legacy_hits" }))?.name).toBe(
+        "app.hits",
+      );
+      expect(relabeler.relabel(createMetric())?.name).toBe("http.requests");
+    });
+
+    it("should apply later rules to the renamed metric", () => {
+      const relabeler = new Relabeler([
+        { action: "rename", regex: "legacy_(.*)", replacement: "app.$1" },
+        { action: "addTags", name: "app\\..*", tags: { migrated: true } },
+        { action: "drop", name: "legacy_.*" },
+      ]);
+
+      const relabeled = relabeler.relabel(createMetric({ name: "legacy_hits" }));
+
+      expect(relabeled?.name).toBe("app.hits");
+      expect(relabeled?.tags.migrated).toBe(true);
+    });
+  });
+
+  it("should not mutate the original metric", () => {
+    const metric = createMetric();
+    const relabeler = new Relabeler([
+      { action: "rename", regex: "http\\.(.*)", replacement: "web.$1" },
+      { action: "dropTags", tags: ["path"] },
+      { action: "addTags", tags: { env: "test" } },
+    ]);
+
+    relabeler.relabel(metric);
+
+    expect(metric).toEqual(createMetric());
+  });
+
+  it("should throw for invalid patterns when created", () => {
+    expect(() => new Relabeler([{ action: "drop", name: "(" }])).toThrow();
+  });
+});
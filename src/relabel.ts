@@ -0,0 +1,210 @@
+import type { Tags, TimestampedMetricPayload } from "./types";
+
+/**
+ * A metric name or tag pattern. Strings are regular expressions that must match
+ * the whole value, as in Prometheus relabeling. RegExps are used as they are.
+ */
+export type RelabelPattern = string | RegExp;
+
+interface ScopedRule {
+  /**
+   * Only apply the rule to metrics whose name matches. Default: every metric
+   */
+  name?: RelabelPattern;
+}
+
+/**
+ * Drop every metric whose name doesn't match
+ */
+export interface KeepRule {
+  action: "keep";
+  name: RelabelPattern;
+}
+
+/**
+ * Drop every metric whose name matches
+ */
+export interface DropRule {
+  action: "drop";
+  name: RelabelPattern;
+}
+
+/**
+ * Remove the tags whose key matches one of the patterns
+ */
+export interface DropTagsRule extends ScopedRule {
+  action: "dropTags";
+  tags: RelabelPattern[];
+}
+
+/**
+ * Remove every tag whose key doesn't match one of the patterns
+ */
+export interface KeepTagsRule extends ScopedRule {
+  action: "keepTags";
+  tags: RelabelPattern[];
+}
+
+/**
+ * Rewrite a tag value matching `regex` with `replacement`, which can reference capture
+ * groups as `$1`. Values that don't match are left as they are.
+ */
+export interface ReplaceTagRule extends ScopedRule {
+  action: "replaceTag";
+  tag: string;
+  regex: RelabelPattern;
+  replacement: string;
+  /**
+   * Write the rewritten value to this tag instead. Default: `tag`
+   */
+  targetTag?: string;
+}
+
+/**
+ * Rewrite metric names matching `regex` with `replacement`, which can reference capture groups as `$1`
+ */
+export interface RenameRule {
+  action: "rename";
+  regex: RelabelPattern;
+  replacement: string;
+}
+
+/**
+ * Set constant tags, overwriting existing tags with the same keys
+ */
+export interface AddTagsRule extends ScopedRule {
+  action: "addTags";
+  tags: Tags;
+}
+
+export type RelabelRule =
+  | KeepRule
+  | DropRule
+  | DropTagsRule
+  | KeepTagsRule
+  | ReplaceTagRule
+  | RenameRule
+  | AddTagsRule;
+
+function compilePattern(pattern: RelabelPattern): RegExp {
+  return pattern instanceof RegExp ? pattern : new RegExp(`^(?:${pattern})$`);
+}
+
+function matches(pattern: RegExp, value: string): boolean {
+  // Reset global and sticky RegExps so matching doesn't depend on previous matches
+  pattern.lastIndex = 0;
+  return pattern.test(value);
+}
+
+type CompiledRule = (
+  metric: TimestampedMetricPayload,
+) => TimestampedMetricPayload | undefined;
+
+/**
+ * Create a check for whether a scoped rule applies to a metric
+ */
+function compileScope(
+  rule: ScopedRule,
+): (metric: TimestampedMetricPayload) => boolean {
+  if (rule.name === undefined) {
+    return () => true;
+  }
+  const pattern = compilePattern(rule.name);
+  return (metric) => matches(pattern, metric.name);
+}
+
+function compileRule(rule: RelabelRule): CompiledRule {
+  switch (rule.action) {
+    case "keep": {
+      const pattern = compilePattern(rule.name);
+      return (metric) => (matches(pattern, metric.name) ? metric : undefined);
+    }
+    case "drop": {
+      const pattern = compilePattern(rule.name);
+      return (metric) => (matches(pattern, metric.name) ? undefined : metric);
+    }
+    case "dropTags":
+    case "keepTags": {
+      const patterns = rule.tags.map(compilePattern);
+      const keep = rule.action === "keepTags";
+      const inScope = compileScope(rule);
+      return (metric) => {
+        if (!inScope(metric)) {
+          return metric;
+        }
+        const tags = Object.fromEntries(
+          Object.entries(metric.tags).filter(
+            ([key]) => patterns.some((pattern) => matches(pattern, key)) === keep,
+          ),
+        );
+        return { ...metric, tags };
+      };
+    }
+    case "replaceTag": {
+      const regex = compilePattern(rule.regex);
+      const targetTag = rule.targetTag ?? rule.tag;
+      const inScope = compileScope(rule);
+      return (metric) => {
+        const value = metric.tags[rule.tag];
+        if (!inScope(metric) || value === undefined || value === null) {
+          return metric;
+        }
+        const stringValue = String(value);
+        if (!matches(regex, stringValue)) {
+          return metric;
+        }
+        regex.lastIndex = 0;
+        return {
+          ...metric,
+          tags: {
+            ...metric.tags,
+            [targetTag]: stringValue.replace(regex, rule.replacement),
+          },
+        };
+      };
+    }
+    case "rename": {
+      const regex = compilePattern(rule.regex);
+      return (metric) => {
+        if (!matches(regex, metric.name)) {
+          return metric;
+        }
+        regex.lastIndex = 0;
+        return { ...metric, name: metric.name.replace(regex, rule.replacement) };
+      };
+    }
+    case "addTags": {
+      const inScope = compileScope(rule);
+      return (metric) =>
+        inScope(metric)
+          ? { ...metric, tags: { ...metric.tags, ...rule.tags } }
+          : metric;
+    }
+  }
+}
+
+/**
+ * Applies a list of relabel rules to metrics, in order.
+ * Patterns are compiled once, so invalid patterns throw when the relabeler is created.
+ */
+export class Relabeler {
+  #rules: CompiledRule[];
+
+  constructor(rules: RelabelRule[]) {
+    this.#rules = rules.map(compileRule);
+  }
+
+  /**
+   * @returns The relabeled metric, or undefined when a rule dropped it
+   */
+  relabel(metric: TimestampedMetricPayload): TimestampedMetricPayload | undefined {
+    let current: TimestampedMetricPayload | undefined = metric;
+    for (const rule of this.#rules) {
+      current = rule(current);
+      if (!current) {
+        return undefined;
+      }
+    }
+    return current;
+  }
+}
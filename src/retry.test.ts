@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { isRetryableError, withRetry } from "./retry";
+import { SinkDeliveryError } from "./sinks/sink";
+
+describe("retry", () => {
+  let waits: number[];
+
+  beforeEach(() => {
+    waits = [];
+    vi.spyOn(scheduler, "wait").mockImplementation(async (delay: number) => {
+      waits.push(delay);
+    });
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("isRetryableError", () => {
+    it("should retry network errors, throttling and server errors", () => {
+      expect(isRetryableError(new SinkDeliveryError("fetch failed"))).toBe(true);
+      expect(isRetryableError(new SinkDeliveryError("", { status: 429 }))).toBe(true);
+      expect(isRetryableError(new SinkDeliveryError("", { status: 408 }))).toBe(true);
+      expect(isRetryableError(new SinkDeliveryError("", { status: 503 }))).toBe(true);
+    });
+
+    it("should not retry client errors or unknown errors", () => {
+      expect(isRetryableError(new SinkDeliveryError("", { status: 400 }))).toBe(false);
+      expect(isRetryableError(new SinkDeliveryError("", { status: 403 }))).toBe(false);
+      expect(isRetryableError(new Error("Dataset binding not found"))).toBe(false);
+    });
+  });
+
+  describe("withRetry", () => {
+    it("should retry retryable failures with exponential backoff and jitter", async () => {
+      const deliver = vi
+        .fn()
+        .mockRejectedValueOnce(new SinkDeliveryError("", { status: 503 }))
+        .mockRejectedValueOnce(new SinkDeliveryError("", { status: 502 }))
+        .mockResolvedValue("delivered");
+
+      await expect(
+        withRetry(deliver, { maxAttempts: 3, initialDelayMs: 100 }),
+      ).resolves.toBe("delivered");
+
+      expect(deliver).toHaveBeenCalledTimes(3);
+      expect(waits).toEqual([50, 100]);
+    });
+
+    it("should cap the backoff at the max delay", async () => {
+      const deliver = vi.fn().mockRejectedValue(new SinkDeliveryError("down"));
+
+      await expect(
+        withRetry(deliver, { maxAttempts: 4, initialDelayMs: 100, maxDelayMs: 150 }),
+      ).rejects.toThrow("down");
+
+      expect(deliver).toHaveBeenCalledTimes(4);
+      expect(waits).toEqual([50, 75, 75]);
+    });
+
+    it("should not retry errors that aren't retryable", async () => {
+      const deliver = vi
+        .fn()
+        .mockRejectedValue(new SinkDeliveryError("bad request", { status: 400 }));
+
+      await expect(withRetry(deliver)).rejects.toThrow("bad request");
+      expect(deliver).toHaveBeenCalledTimes(1);
+    });
+
+    it("should wait at least the Retry-After delay", async () => {
+      const deliver = vi
+        .fn()
+        .mockRejectedValueOnce(
+          new SinkDeliveryError("", { status: 429, retryAfterMs: 2000 }),
+        )
+        .mockResolvedValue(undefined);
+
+      await withRetry(deliver, { initialDelayMs: 100 });
+
+      expect(waits).toEqual([2000]);
+    });
+
+    it("should give up when the next attempt would start after the deadline", async () => {
+      const deliver = vi
+        .fn()
+        .mockRejectedValue(
+          new SinkDeliveryError("throttled", { status: 429, retryAfterMs: 60_000 }),
+        );
+
+      await expect(withRetry(deliver, {}, Date.now() + 10_000)).rejects.toThrow(
+        "throttled",
+      );
+      expect(deliver).toHaveBeenCalledTimes(1);
+      expect(waits).toEqual([]);
+    });
+
+    it("should fail an attempt still running at the deadline with a retryable error", async () => {
+      vi.useFakeTimers();
+      try {
+        const deliver = vi.fn(() => new Promise<void>(() => {}));
+
+        const delivery = withRetry(deliver, {}, Date.now() + 10_000);
+        const rejected = expect(delivery).rejects.toSatisfy(isRetryableError);
+        await vi.advanceTimersByTimeAsync(10_000);
+
+        await rejected;
+        expect(deliver).toHaveBeenCalledTimes(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should use a custom retry classification", async () => {
+      const deliver = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("flaky"))
+        .mockResolvedValue(undefined);
+
+      await withRetry(deliver, { isRetryable: () => true });
+
+      expect(deliver).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("SinkDeliveryError", () => {
+    it("should read the status and Retry-After header of a response", async () => {
+      const error = await SinkDeliveryError.fromResponse(
+        new Response("slow down", { status: 429, headers: { "Retry-After": "3" } }),
+        (body) => `HTTP 429: ${body}`,
+      );
+
+      expect(error.message).toBe("HTTP 429: slow down");
+      expect(error.status).toBe(429);
+      expect(error.retryAfterMs).toBe(3000);
+    });
+
+    it("should keep the delivery details when wrapped", () => {
+      const error = SinkDeliveryError.wrap(
+        "Failed to send metrics",
+        new SinkDeliveryError("HTTP 503", { status: 503, retryAfterMs: 100 }),
+      );
+
+      expect(error).toBeInstanceOf(SinkDeliveryError);
+      expect(error.message).toBe("Failed to send metrics: HTTP 503");
+      expect((error as SinkDeliveryError).status).toBe(503);
+      expect(SinkDeliveryError.wrap("Failed", new Error("oops"))).not.toBeInstanceOf(
+        SinkDeliveryError,
+      );
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { SinkDeliveryError } from "./sinks/sink";
+
+export interface RetryPolicy {
+  /**
+   * Max number of delivery attempts, including the first one. Set to 1 to disable retries.
+   * Default: 3
+   */
+  maxAttempts?: number;
+  /**
+   * Upper bound of the backoff before the first retry, in milliseconds.
+   * The bound doubles with each retry, and the delay is picked at random below it.
+   * Default: 200
+   */
+  initialDelayMs?: number;
+  /**
+   * Max backoff between attempts in milliseconds. A longer `Retry-After` is still honored.
+   * Default: 5000
+   */
+  maxDelayMs?: number;
+  /**
+   * Whether a failed delivery should be retried.
+   * Default: `isRetryableError`
+   */
+  isRetryable?: (error: unknown) => boolean;
+}
+
+/**
+ * Tail Workers can keep running `waitUntil` tasks for 30 seconds after an invocation,
+ * retries stop a little before that so the final attempt can complete.
+ */
+export const WAIT_UNTIL_BUDGET_MS = 25_000;
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  initialDelayMs: 200,
+  maxDelayMs: 5000,
+  isRetryable: isRetryableError,
+};
+
+const RETRYABLE_STATUSES = [408, 425, 429];
+
+/**
+ * Deliveries are retried when the request failed without a response, or the backend
+ * responded with 408, 425, 429 or a 5xx status. Other errors aren't retried.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof SinkDeliveryError)) {
+    return false;
+  }
+  return (
+    error.status === undefined ||
+    error.status >= 500 ||
+    RETRYABLE_STATUSES.includes(error.status)
+  );
+}
+
+/**
+ * Reject with a retryable `SinkDeliveryError` when an attempt hasn't settled by the deadline,
+ * so a hanging request doesn't use up the whole `waitUntil` budget
+ */
+async function withDeadline<T>(attempt: Promise<T>, deadline: number): Promise<T> {
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    timeout = setTimeout(
+      () => reject(new SinkDeliveryError("Delivery timed out at the deadline")),
+      Math.max(deadline - Date.now(), 0),
+    );
+  });
+  try {
+    return await Promise.race([attempt, timedOut]);
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Run a delivery, retrying failures with exponential backoff and full jitter.
+ * A retry is only attempted when its delay ends before the deadline, otherwise the last error is thrown.
+ * Attempts still running at the deadline fail with a retryable `SinkDeliveryError`.
+ * @param deliver - The delivery to attempt
+ * @param policy - The retry policy, unset options use their defaults
+ * @param deadline - Timestamp in milliseconds after which no retry is started
+ */
+export async function withRetry<T>(
+  deliver: () => Promise<T>,
+  policy: RetryPolicy = {},
+  deadline = Date.now() + WAIT_UNTIL_BUDGET_MS,
+): Promise<T> {
+  const { maxAttempts, initialDelayMs, maxDelayMs, isRetryable } = {
+    ...DEFAULT_RETRY_POLICY,
+    ...policy,
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await withDeadline(deliver(), deadline);
+    } catch (error) {
+      if (attempt >= maxAttempts || !isRetryable(error)) {
+        throw error;
+      }
+
+      const backoff =
+        Math.random() *
+        Math.min(maxDelayMs, initialDelayMs * 2 ** (attempt - 1));
+      const retryAfter =
+        error instanceof SinkDeliveryError ? error.retryAfterMs : undefined;
+      const delay = Math.max(backoff, retryAfter ?? 0);
+      if (Date.now() + delay >= deadline) {
+        throw error;
+      }
+
+      await scheduler.wait(delay);
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import { describe, it, expect } from "vitest";
+import type { TraceItem } from "@cloudflare/workers-types";
+import {
+  routeMetricDelivery,
+  routeSink,
+  selectAggregates,
+  selectMetrics,
+  selectTraceItems,
+} from "./routing";
+import { MetricsDb } from "./metricsDb";
+import type { LogSink, MetricSink } from "./sinks/sink";
+import { type ExportedMetricPayload, MetricType } from "./types";
+
+const metricSink: MetricSink = { sendMetrics: async () => {} };
+const logSink: LogSink = { sendLogs: async () => {} };
+
+function createMetric(
+  name: string,
+  tags: ExportedMetricPayload["tags"] = {},
+): ExportedMetricPayload {
+  return { type: MetricType.COUNT, name, value: 1, tags, timestamp: 1000 };
+}
+
+function createTraceItem(
+  scriptName: string,
+  levels: string[] = [],
+): TraceItem {
+  return {
+    scriptName,
+    logs: levels.map((level) => ({ level, message: [level], timestamp: 1000 })),
+  } as unknown as TraceItem;
+}
+
+describe("routing", () => {
+  describe("selectMetrics", () => {
+    const metrics = [
+      createMetric("checkout.orders", { scriptName: "shop", region: "eu" }),
+      createMetric("checkout.payments", { scriptName: "payments", region: "us" }),
+      createMetric("cache.hits", { scriptName: "shop", region: "eu-west" }),
+    ];
+
+    it("should deliver every metric to plain sinks", () => {
+      expect(selectMetrics(metricSink, metrics)).toBe(metrics);
+      expect(routeSink(metricSink)).toBe(metricSink);
+    });
+
+    it("should select metrics by name prefix", () => {
+      const route = { sink: metricSink, match: { namePrefix: ["checkout."] } };
+
+      expect(selectMetrics(route, metrics).map((m) => m.name)).toEqual([
+        "checkout.orders",
+        "checkout.payments",
+      ]);
+      expect(routeSink(route)).toBe(metricSink);
+    });
+
+    it("should select metrics by script name and tags", () => {
+      expect(
+        selectMetrics(
+          { sink: metricSink, match: { scriptName: "shop", tags: { region: /^eu/ } } },
+          metrics,
+        ).map((m) => m.name),
+      ).toEqual(["checkout.orders", "cache.hits"]);
+
+      expect(
+        selectMetrics(
+          { sink: metricSink, match: { tags: { region: "eu" } } },
+          metrics,
+        ).map((m) => m.name),
+      ).toEqual(["checkout.orders"]);
+    });
+
+    it("should select metrics with a predicate", () => {
+      const route = {
+        sink: metricSink,
+        match: (metric: ExportedMetricPayload) => metric.tags.region === "us",
+      };
+
+      expect(selectMetrics(route, metrics).map((m) => m.name)).toEqual([
+        "checkout.payments",
+      ]);
+    });
+    it("should only deliver histograms to sinks with native histograms", () => {
+      const histogram: ExportedMetricPayload = {
+        type: MetricType.HISTOGRAM,
+        name: "checkout.duration",
+        value: 1,
+        tags: {},
+        timestamp: 1000,
+        options: {},
+        distribution: { count: 1, sum: 5, min: 5, max: 5, bins: [[5, 1]] },
+      };
+      const withHistogram = [...metrics, histogram];
+
+      expect(selectMetrics(metricSink, withHistogram)).toEqual(metrics);
+      expect(
+        selectMetrics({ ...metricSink, nativeHistograms: true }, withHistogram),
+      ).toBe(withHistogram);
+    });
+  });
+
+  describe("selectAggregates", () => {
+    const aggregates = () => {
+      const db = new MetricsDb();
+      db.storeMetric({ ...createMetric("checkout.orders", { region: "eu" }), value: 1 });
+      db.storeMetric({
+        type: MetricType.HISTOGRAM,
+        name: "checkout.duration",
+        value: 5,
+        tags: { region: "us" },
+        options: { aggregates: ["max"] },
+        timestamp: 1000,
+      });
+      return db.toAggregates();
+    };
+
+    it("should select aggregates by the name and tags of the series", () => {
+      expect(
+        selectAggregates(
+          { sink: metricSink, match: { tags: { region: "us" } } },
+          aggregates(),
+        ).map((aggregate) => aggregate.name),
+      ).toEqual(["checkout.duration"]);
+    });
+
+    it("should select series with an exported metric matching a predicate", () => {
+      const route = {
+        sink: metricSink,
+        match: (metric: ExportedMetricPayload) => metric.name.endsWith(".max"),
+      };
+
+      expect(selectAggregates(route, aggregates()).map((aggregate) => aggregate.name)).toEqual([
+        "checkout.duration",
+      ]);
+    });
+
+    it("should deliver aggregates to sinks that receive them", async () => {
+      const received: unknown[] = [];
+      const sink: MetricSink = {
+        sendMetrics: async () => {
+          throw new Error("unexpected");
+        },
+        sendAggregates: async (routed) => {
+          received.push(...routed);
+        },
+      };
+
+      await routeMetricDelivery(sink, [], aggregates())?.();
+
+      expect(received).toHaveLength(2);
+      expect(routeMetricDelivery(metricSink, [], aggregates())).toBeUndefined();
+    });
+  });
+
+  describe("selectTraceItems", () => {
+    it("should select trace items by script name", () => {
+      const traceItems = [createTraceItem("shop"), createTraceItem("payments")];
+
+      expect(
+        selectTraceItems({ sink: logSink, match: { scriptName: ["payments"] } }, traceItems),
+      ).toEqual([traceItems[1]]);
+      expect(
+        selectTraceItems(
+          { sink: logSink, match: (traceItem) => traceItem.scriptName === "shop" },
+          traceItems,
+        ),
+      ).toEqual([traceItems[0]]);
+    });
+
+    it("should only deliver logs at the selected levels", () => {
+      const traceItems = [
+        createTraceItem("shop", ["log", "error", "warn"]),
+        createTraceItem("shop", ["log"]),
+      ];
+
+      const selected = selectTraceItems(
+        { sink: logSink, match: { levels: ["warn", "error"] } },
+        traceItems,
+      );
+
+      expect(selected).toHaveLength(1);
+      expect(selected[0].scriptName).toBe("shop");
+      expect(selected[0].logs.map((log) => log.level)).toEqual(["error", "warn"]);
+      expect(traceItems[0].logs).toHaveLength(3);
+    });
+  });
+});
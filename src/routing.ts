@@ -0,0 +1,279 @@
+import type { TraceItem, TraceLog } from "@cloudflare/workers-types";
+import type { LogSink, MetricSink } from "./sinks/sink";
+import { type ExportedMetricPayload, MetricType } from "./types";
+import { aggregateToMetricPayloads, type MetricAggregate } from "./metricsDb";
+import type { QuantileSketchFactory } from "./utils/sketch";
+import type { RetryPolicy } from "./retry";
+
+/**
+ * A tag value to match. Strings, numbers and booleans must be equal, RegExps are tested against the value as a string.
+ */
+export type TagMatcher = string | number | boolean | RegExp;
+
+export interface MetricSelector {
+  /**
+   * Match metrics whose name starts with one of the prefixes
+   */
+  namePrefix?: string | string[];
+  /**
+   * Match metrics that have every one of these tags
+   */
+  tags?: Record<string, TagMatcher>;
+  /**
+   * Match metrics from one of these scripts, using the `scriptName` tag
+   */
+  scriptName?: string | string[];
+}
+
+export interface LogSelector {
+  /**
+   * Match trace items from one of these scripts
+   */
+  scriptName?: string | string[];
+  /**
+   * Only deliver logs at one of these levels (e.g. `["warn", "error"]`).
+   * Trace items without a log at these levels aren't delivered.
+   */
+  levels?: string[];
+}
+
+/**
+ * Deliver only the metrics matching a selector or a predicate to a sink
+ */
+export interface MetricRoute {
+  sink: MetricSink;
+  /**
+   * Identifies the sink in the dead-letter store. Default: the sink's index in `sinks`
+   */
+  name?: string;
+  /**
+   * Default: every metric
+   */
+  match?: MetricSelector | ((metric: ExportedMetricPayload) => boolean);
+  /**
+   * Retry policy of this sink, merged over the tail's retry policy
+   */
+  retry?: RetryPolicy;
+}
+
+/**
+ * Deliver only the trace items matching a selector or a predicate to a sink
+ */
+export interface LogRoute {
+  sink: LogSink;
+  /**
+   * Identifies the sink in the dead-letter store. Default: the sink's index in `sinks`
+   */
+  name?: string;
+  /**
+   * Default: every trace item
+   */
+  match?: LogSelector | ((traceItem: TraceItem) => boolean);
+  /**
+   * Retry policy of this sink, merged over the tail's retry policy
+   */
+  retry?: RetryPolicy;
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function matchesTag(value: unknown, matcher: TagMatcher): boolean {
+  if (matcher instanceof RegExp) {
+    matcher.lastIndex = 0;
+    return value !== undefined && value !== null && matcher.test(String(value));
+  }
+  return value === matcher;
+}
+
+function matchesMetric(
+  metric: Pick<ExportedMetricPayload, "name" | "tags">,
+  selector: MetricSelector,
+): boolean {
+  if (
+    selector.namePrefix !== undefined &&
+    !toArray(selector.namePrefix).some((prefix) => metric.name.startsWith(prefix))
+  ) {
+    return false;
+  }
+  if (
+    selector.scriptName !== undefined &&
+    !toArray(selector.scriptName).includes(String(metric.tags.scriptName))
+  ) {
+    return false;
+  }
+  return Object.entries(selector.tags ?? {}).every(([key, matcher]) =>
+    matchesTag(metric.tags[key], matcher),
+  );
+}
+
+/**
+ * Pick the metrics delivered to a sink. Sinks registered without a route receive every metric,
+ * except HISTOGRAM metrics, which are only delivered to sinks with `nativeHistograms`.
+ */
+export function selectMetrics(
+  route: MetricSink | MetricRoute,
+  metrics: ExportedMetricPayload[],
+): ExportedMetricPayload[] {
+  const delivered = receivesHistograms(route) ? metrics : withoutHistograms(metrics);
+  if (!isRoute(route) || !route.match) {
+    return delivered;
+  }
+  const { match } = route;
+  return typeof match === "function"
+    ? delivered.filter((metric) => match(metric))
+    : delivered.filter((metric) => matchesMetric(metric, match));
+}
+
+function withoutHistograms(metrics: ExportedMetricPayload[]): ExportedMetricPayload[] {
+  return metrics.some((metric) => metric.type === MetricType.HISTOGRAM)
+    ? metrics.filter((metric) => metric.type !== MetricType.HISTOGRAM)
+    : metrics;
+}
+
+/**
+ * Whether a sink receives histogram series as HISTOGRAM metrics, see `MetricSink.nativeHistograms`
+ */
+export function receivesHistograms(route: MetricSink | MetricRoute): boolean {
+  return routeSink(route).nativeHistograms === true;
+}
+
+/**
+ * Pick the aggregates delivered to a sink that receives aggregates. Selectors match the name and tags
+ * of the series. Predicates are called with each metric the series is exported as, and the series
+ * is delivered when one of them matches.
+ */
+export function selectAggregates(
+  route: MetricSink | MetricRoute,
+  aggregates: MetricAggregate[],
+  histogramSketch?: QuantileSketchFactory,
+): MetricAggregate[] {
+  if (!isRoute(route) || !route.match) {
+    return aggregates;
+  }
+  const { match } = route;
+  return typeof match === "function"
+    ? aggregates.filter((aggregate) =>
+        aggregateToMetricPayloads(aggregate, aggregate.lastUpdated, histogramSketch).some((metric) => match(metric)),
+      )
+    : aggregates.filter((aggregate) => matchesMetric(aggregate, match));
+}
+
+/**
+ * Create the delivery of a flush to a sink: the routed aggregates for sinks that receive aggregates,
+ * the routed metrics otherwise.
+ * @returns The delivery, or undefined when nothing is routed to the sink
+ */
+export function routeMetricDelivery(
+  route: MetricSink | MetricRoute,
+  metrics: ExportedMetricPayload[],
+  aggregates: MetricAggregate[],
+  histogramSketch?: QuantileSketchFactory,
+): (() => Promise<void>) | undefined {
+  const sink = routeSink(route);
+  if (sink.sendAggregates) {
+    const sendAggregates = sink.sendAggregates.bind(sink);
+    const routedAggregates = selectAggregates(route, aggregates, histogramSketch);
+    return routedAggregates.length > 0
+      ? () => sendAggregates(routedAggregates)
+      : undefined;
+  }
+
+  const routedMetrics = selectMetrics(route, metrics);
+  return routedMetrics.length > 0
+    ? () => sink.sendMetrics(routedMetrics)
+    : undefined;
+}
+
+/**
+ * Pick the trace items delivered to a sink. Sinks registered without a route receive every trace item.
+ * A `levels` selector removes the logs at other levels from the delivered trace items.
+ */
+export function selectTraceItems(
+  route: LogSink | LogRoute,
+  traceItems: TraceItem[],
+): TraceItem[] {
+  if (!isRoute(route) || !route.match) {
+    return traceItems;
+  }
+  const { match } = route;
+  if (typeof match === "function") {
+    return traceItems.filter((traceItem) => match(traceItem));
+  }
+
+  const scriptNames =
+    match.scriptName !== undefined ? toArray(match.scriptName) : undefined;
+  const selected: TraceItem[] = [];
+  for (const traceItem of traceItems) {
+    if (scriptNames && !scriptNames.includes(traceItem.scriptName ?? "")) {
+      continue;
+    }
+    if (!match.levels) {
+      selected.push(traceItem);
+      continue;
+    }
+
+    const levels = match.levels;
+    const logs = traceItem.logs.filter((log) => levels.includes(log.level));
+    if (logs.length > 0) {
+      selected.push(withLogs(traceItem, logs));
+    }
+  }
+  return selected;
+}
+
+/**
+ * A view of a trace item with different logs. Trace items from the runtime can expose their
+ * properties through getters, so they are proxied rather than copied.
+ */
+function withLogs(traceItem: TraceItem, logs: TraceLog[]): TraceItem {
+  return new Proxy(traceItem, {
+    get(target, property) {
+      return property === "logs" ? logs : Reflect.get(target, property, target);
+    },
+  });
+}
+
+type Route<T> = { sink: T; name?: string; retry?: RetryPolicy };
+
+/**
+ * Get the sink of a sink or route
+ */
+export function routeSink<T extends MetricSink | LogSink>(route: T | Route<T>): T {
+  return isRoute(route) ? route.sink : route;
+}
+
+/**
+ * Get the name identifying a sink or route, its index in the sinks unless the route is named
+ */
+export function routeName<T extends MetricSink | LogSink>(
+  route: T | Route<T>,
+  index: number,
+): string {
+  return (isRoute(route) ? route.name : undefined) ?? String(index);
+}
+
+/**
+ * Find the sink or route with a name
+ */
+export function findRoute<T extends MetricSink | LogSink>(
+  routes: (T | Route<T>)[],
+  name: string,
+): T | Route<T> | undefined {
+  return routes.find((route, index) => routeName(route, index) === name);
+}
+
+/**
+ * Get the retry policy of a route, sinks registered without a route use the tail's policy
+ */
+export function routeRetryPolicy<T extends MetricSink | LogSink>(
+  route: T | Route<T>,
+  defaultPolicy: RetryPolicy = {},
+): RetryPolicy {
+  return isRoute(route) ? { ...defaultPolicy, ...route.retry } : defaultPolicy;
+}
+
+function isRoute<T extends object>(route: T | Route<T>): route is Route<T> {
+  return "sink" in route;
+}
@@ -12,7 +12,7 @@ import {
   SeverityNumber,
 } from "./otel-logs-types";
 import { ulidFactory } from "ulid-workers";
-import type { LogSink } from "../sink";
+import { type LogSink, SinkDeliveryError } from "../sink";
 import { flatten } from "flat";
 export interface OtelLogSinkOptions {
   url: string;
@@ -55,10 +55,9 @@ export class OtelLogSink implements LogSink {
       // Send via fetch
       await this.exportLogs(otlpPayload);
     } catch (error) {
-      throw new Error(
-        `Failed to send logs to OTEL collector: ${
-          error instanceof Error ? error.message : String(error)
-        }`
+      throw SinkDeliveryError.wrap(
+        "Failed to send logs to OTEL collector",
+        error,
       );
     }
   }
@@ -197,12 +196,15 @@ export class OtelLogSink implements LogSink {
         ...this.options.headers,
       },
       body: JSON.stringify(payload),
+    }).catch((error) => {
+      throw new SinkDeliveryError(String(error), { cause: error });
     });
 
     if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `HTTP ${response.status} ${response.statusText}: ${errorText}`
+      throw await SinkDeliveryError.fromResponse(
+        response,
+        (errorText) =>
+          `HTTP ${response.status} ${response.statusText}: ${errorText}`,
       );
     }
   }
@@ -0,0 +1,84 @@
+import type { MetricAggregate } from "../../metricsDb";
+import { type MetricSink, SinkDeliveryError } from "../sink";
+import { type ExportedMetricPayload, MetricType } from "../../types";
+import type { MetricsAggregatorDurableObject } from "../../aggregator/durableObject";
+import { ddSketch, type QuantileSketchFactory } from "../../utils/sketch";
+
+export interface AggregatorMetricSinkOptions {
+  /**
+   * Sketch of histograms forwarded as exported metrics, which must match the sketch of the aggregator.
+   * Default: a DDSketch with a relative accuracy of 1%, see `ddSketch`
+   */
+  histogramSketch?: QuantileSketchFactory;
+}
+
+/**
+ * Forwards the mergeable state of every series to a `MetricsAggregatorDurableObject`,
+ * which flushes globally aggregated series to the real sinks.
+ * @example
+ * const sink = new AggregatorMetricSink(env.METRICS_AGGREGATOR.get(env.METRICS_AGGREGATOR.idFromName("global")));
+ */
+export class AggregatorMetricSink implements MetricSink {
+  #stub: DurableObjectStub<MetricsAggregatorDurableObject>;
+  #histogramSketch: QuantileSketchFactory;
+
+  constructor(
+    stub: DurableObjectStub<MetricsAggregatorDurableObject>,
+    options: AggregatorMetricSinkOptions = {},
+  ) {
+    this.#stub = stub;
+    this.#histogramSketch = options.histogramSketch ?? ddSketch();
+  }
+
+  async sendAggregates(aggregates: MetricAggregate[]): Promise<void> {
+    try {
+      await this.#stub.merge(aggregates);
+    } catch (error) {
+      // Failed RPC calls don't have a status, so they are retried
+      throw new SinkDeliveryError(
+        `Failed to send aggregates to the metrics aggregator: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error },
+      );
+    }
+  }
+
+  /**
+   * Exported metrics are forwarded as aggregates of their own, e.g. dead letters stored for a sink
+   * that received exported metrics.
+   * Derived percentiles of histograms can't be merged, so the most recent value of each wins,
+   * while HISTOGRAM metrics are restored from the bins of their distribution.
+   */
+  async sendMetrics(metrics: ExportedMetricPayload[]): Promise<void> {
+    await this.sendAggregates(metrics.map((metric) => this.#toAggregate(metric)));
+  }
+
+  #toAggregate(metric: ExportedMetricPayload): MetricAggregate {
+    const { name, tags, unit, description, timestamp } = metric;
+    if (metric.type === MetricType.HISTOGRAM) {
+      const sketch = this.#histogramSketch.create();
+      for (const [value, count] of metric.distribution.bins) {
+        sketch.add(value, count);
+      }
+      return {
+        type: metric.type,
+        name,
+        tags,
+        value: sketch.toState(),
+        percentiles: metric.options.percentiles,
+        aggregates: metric.options.aggregates,
+        lastUpdated: timestamp,
+        unit,
+        description,
+      };
+    }
+    return {
+      type: metric.type,
+      name,
+      tags,
+      value: metric.value,
+      lastUpdated: timestamp,
+      unit,
+      description,
+    };
+  }
+}
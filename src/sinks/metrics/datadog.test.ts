@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { DatadogMetricSink } from "./datadog";
+import { MetricsDb } from "../../metricsDb";
+import { type ExportedMetricPayload, MetricType } from "../../types";
+
+/**
+ * Send metrics and get the endpoint and series posted to Datadog
+ */
+async function exportSeries(
+  sink: DatadogMetricSink,
+  metrics: ExportedMetricPayload[],
+): Promise<{ endpoint: unknown; series: unknown[] }> {
+  const fetch = vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("{}"));
+  await sink.sendMetrics(metrics);
+  return {
+    endpoint: fetch.mock.calls[0][0],
+    series: JSON.parse(String(fetch.mock.calls[0][1]?.body)).series,
+  };
+}
+
+describe("DatadogMetricSink", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should submit sets as a gauge of their distinct count", async () => {
+    const metrics = new MetricsDb();
+    for (const user of ["a", "b", "a", "c"]) {
+      metrics.storeMetric({
+        type: MetricType.SET,
+        name: "worker.unique_users",
+        value: user,
+        tags: { plan: "pro" },
+        timestamp: 1000,
+      });
+    }
+
+    const { endpoint, series } = await exportSeries(
+      new DatadogMetricSink({ apiKey: "key" }),
+      metrics.toMetricPayloads(60_000),
+    );
+
+    expect(endpoint).toBe("https://api.datadoghq.com/api/v2/series");
+    expect(series).toEqual([
+      {
+        metric: "worker.unique_users",
+        type: 3,
+        points: [{ timestamp: 60, value: 3 }],
+        tags: ["plan:pro"],
+      },
+    ]);
+  });
+
+  it("should keep the v1 payload for custom v1 endpoints", async () => {
+    const { endpoint, series } = await exportSeries(
+      new DatadogMetricSink({
+        apiKey: "key",
+        endpoint: "https://proxy.example.com/api/v1/series",
+      }),
+      [
+        {
+          type: MetricType.COUNT,
+          name: "requests",
+          value: 2,
+          tags: { route: "/" },
+          timestamp: 5000,
+          unit: "1",
+        },
+        { type: MetricType.GAUGE, name: "queue.depth", value: 7, tags: {}, timestamp: 5000, unit: "ms" },
+      ],
+    );
+
+    expect(endpoint).toBe("https://proxy.example.com/api/v1/series");
+    expect(series).toEqual([
+      { metric: "requests", type: "count", points: [[5, 2]], tags: ["route:/"] },
+      { metric: "queue.depth", type: "gauge", points: [[5, 7]], tags: [] },
+    ]);
+  });
+});
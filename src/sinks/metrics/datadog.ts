@@ -1,6 +1,6 @@
-import type { ExportedMetricPayload } from "../../types";
+import { type ExportedMetricPayload, MetricType } from "../../types";
 import { env } from "cloudflare:workers";
-import type { MetricSink } from "../sink";
+import { type MetricSink, SinkDeliveryError } from "../sink";
 export interface DatadogMetricSinkOptions {
   /**
    * Datadog API key
@@ -13,13 +13,17 @@ export interface DatadogMetricSinkOptions {
   site?: string;
 
   /**
-   * Custom endpoint URL override (for testing or proxies)
+   * Custom endpoint URL override (for testing or proxies).
+   * Endpoints ending in `/api/v1/series` receive the v1 payload, which doesn't carry units.
+   * Default: `https://api.<site>/api/v2/series`
    */
   endpoint?: string;
 }
 
 /**
- * A sink that sends metrics to Datadog
+ * A sink that sends metrics to Datadog.
+ * SET metrics arrive as gauges of their distinct count, and are submitted as gauges since
+ * the series API has no set type. Distinct counts of separate flushes and isolates aren't unioned.
  */
 export class DatadogMetricSink implements MetricSink {
   private readonly options: {
@@ -27,6 +31,7 @@ export class DatadogMetricSink implements MetricSink {
     site: string;
     endpoint: string;
   };
+  private readonly v1: boolean;
 
   constructor(options?: DatadogMetricSinkOptions) {
     // @ts-ignore
@@ -37,13 +42,14 @@ export class DatadogMetricSink implements MetricSink {
 
     // @ts-ignore
     const site = options?.site || env.DD_SITE || "datadoghq.com";
-    const endpoint = options?.endpoint || `https://api.${site}/api/v1/series`;
+    const endpoint = options?.endpoint || `https://api.${site}/api/v2/series`;
 
     this.options = {
       apiKey,
       site,
       endpoint,
     };
+    this.v1 = isV1Endpoint(endpoint);
   }
 
   /**
@@ -56,11 +62,11 @@ export class DatadogMetricSink implements MetricSink {
     
     try {
       const datadogMetrics = payloads.map((payload) =>
-        this.transformMetric(payload),
+        this.v1 ? this.transformMetricV1(payload) : this.transformMetric(payload),
       );
       await this.sendToDatadog(datadogMetrics);
     } catch (error) {
-      throw new Error(`Failed to send metrics to Datadog: ${error instanceof Error ? error.message : String(error)}`);
+      throw SinkDeliveryError.wrap("Failed to send metrics to Datadog", error);
     }
   }
 
@@ -72,20 +78,56 @@ export class DatadogMetricSink implements MetricSink {
       ([key, value]) => `${key}:${value}`,
     );
 
-    const metricType = payload.type.toLowerCase();
+    const unit = payload.unit ? toDatadogUnit(payload.unit) : undefined;
 
     return {
       metric: payload.name,
-      type: metricType,
-      points: [[Math.floor(payload.timestamp / 1000), payload.value]],
+      type: this.toDatadogType(payload.type),
+      points: [
+        {
+          timestamp: Math.floor(payload.timestamp / 1000),
+          value: payload.value,
+        },
+      ],
       tags: formattedTags,
+      ...(unit ? { unit } : {}),
     };
   }
 
+  /**
+   * Transform a metric payload to the Datadog v1 format, for custom v1 endpoints
+   */
+  private transformMetricV1(payload: ExportedMetricPayload): DatadogMetricV1 {
+    return {
+      metric: payload.name,
+      type: payload.type === MetricType.GAUGE ? "gauge" : "count",
+      points: [[Math.floor(payload.timestamp / 1000), payload.value]],
+      tags: Object.entries(payload.tags).map(([key, value]) => `${key}:${value}`),
+    };
+  }
+
+  /**
+   * Map a metric type to a Datadog v2 submission type.
+   * Up/down counters are exported as deltas, which Datadog accepts as counts with negative values.
+   */
+  private toDatadogType(type: MetricType): DatadogMetricType {
+    switch (type) {
+      case MetricType.COUNT:
+      case MetricType.UP_DOWN_COUNTER:
+        return DatadogMetricType.COUNT;
+      case MetricType.GAUGE:
+        return DatadogMetricType.GAUGE;
+      default:
+        return DatadogMetricType.UNSPECIFIED;
+    }
+  }
+
   /**
    * Send metrics to Datadog API
    */
-  private async sendToDatadog(metrics: DatadogMetric[]): Promise<void> {
+  private async sendToDatadog(
+    metrics: (DatadogMetric | DatadogMetricV1)[],
+  ): Promise<void> {
     if (!this.options.apiKey || this.options.apiKey.length === 0) {
       console.warn(`Datadog API key was not found. Dropping ${metrics.length} metrics.`);
       return;
@@ -98,18 +140,76 @@ export class DatadogMetricSink implements MetricSink {
         "DD-API-KEY": this.options.apiKey,
       },
       body: JSON.stringify({ series: metrics }),
+    }).catch((error) => {
+      throw new SinkDeliveryError(String(error), { cause: error });
     });
 
     if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`Datadog API error (${response.status}): ${text}`);
+      throw await SinkDeliveryError.fromResponse(
+        response,
+        (text) => `Datadog API error (${response.status}): ${text}`,
+      );
     }
   }
 }
 
+enum DatadogMetricType {
+  UNSPECIFIED = 0,
+  COUNT = 1,
+  RATE = 2,
+  GAUGE = 3,
+}
+
 interface DatadogMetric {
   metric: string;
-  type: string;
-  points: [number, number][]; // [timestamp, value]
+  type: DatadogMetricType;
+  points: { timestamp: number; value: number }[];
+  tags: string[];
+  unit?: string;
+}
+
+interface DatadogMetricV1 {
+  metric: string;
+  type: "count" | "gauge";
+  points: [timestamp: number, value: number][];
   tags: string[];
 }
+
+function isV1Endpoint(endpoint: string): boolean {
+  try {
+    return /\/api\/v1\/series\/?$/.test(new URL(endpoint).pathname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Datadog expects unit names from its own list rather than UCUM symbols.
+ * Units that aren't in this map are passed through unchanged.
+ */
+const DATADOG_UNITS: Record<string, string> = {
+  ns: "nanosecond",
+  us: "microsecond",
+  ms: "millisecond",
+  s: "second",
+  min: "minute",
+  h: "hour",
+  d: "day",
+  By: "byte",
+  KiBy: "kibibyte",
+  MiBy: "mebibyte",
+  GiBy: "gibibyte",
+  KBy: "kilobyte",
+  MBy: "megabyte",
+  GBy: "gigabyte",
+  bit: "bit",
+  "%": "percent",
+};
+
+function toDatadogUnit(unit: string): string | undefined {
+  // "1" is the UCUM unit for dimensionless values
+  if (unit === "1") {
+    return undefined;
+  }
+  return DATADOG_UNITS[unit] ?? unit;
+}
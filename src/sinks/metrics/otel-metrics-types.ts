@@ -32,12 +32,69 @@ export interface Sum {
   isMonotonic: boolean;
 }
 
+export interface HistogramDataPoint {
+  attributes: KeyValue[];
+  timeUnixNano: string;
+  startTimeUnixNano?: string;
+  count: string;
+  sum?: number;
+  /**
+   * Counts of the buckets, one more than the explicit bounds
+   */
+  bucketCounts: string[];
+  /**
+   * Upper inclusive bounds of the buckets, except the last bucket which is unbounded
+   */
+  explicitBounds: number[];
+  min?: number;
+  max?: number;
+}
+
+export interface Histogram {
+  dataPoints: HistogramDataPoint[];
+  aggregationTemporality: AggregationTemporality;
+}
+
+export interface ExponentialHistogramBuckets {
+  /**
+   * Index of the first bucket
+   */
+  offset: number;
+  bucketCounts: string[];
+}
+
+export interface ExponentialHistogramDataPoint {
+  attributes: KeyValue[];
+  timeUnixNano: string;
+  startTimeUnixNano?: string;
+  count: string;
+  sum?: number;
+  /**
+   * Resolution of the buckets, bucket `index` covers values in (base^index, base^(index + 1)]
+   * with base = 2^(2^-scale)
+   */
+  scale: number;
+  zeroCount: string;
+  positive: ExponentialHistogramBuckets;
+  negative: ExponentialHistogramBuckets;
+  min?: number;
+  max?: number;
+  zeroThreshold?: number;
+}
+
+export interface ExponentialHistogram {
+  dataPoints: ExponentialHistogramDataPoint[];
+  aggregationTemporality: AggregationTemporality;
+}
+
 export interface Metric {
   name: string;
   description?: string;
   unit?: string;
   gauge?: Gauge;
   sum?: Sum;
+  histogram?: Histogram;
+  exponentialHistogram?: ExponentialHistogram;
 }
 
 export interface InstrumentationScope {
@@ -73,3 +130,15 @@ export function isGaugeMetric(
 export function isSumMetric(metric: Metric): metric is Metric & { sum: Sum } {
   return metric.sum !== undefined;
 }
+
+export function isHistogramMetric(
+  metric: Metric,
+): metric is Metric & { histogram: Histogram } {
+  return metric.histogram !== undefined;
+}
+
+export function isExponentialHistogramMetric(
+  metric: Metric,
+): metric is Metric & { exponentialHistogram: ExponentialHistogram } {
+  return metric.exponentialHistogram !== undefined;
+}
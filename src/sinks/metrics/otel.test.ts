@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { OtelMetricSink } from "./otel";
+import type { Metric, OTLPMetricsPayload } from "./otel-metrics-types";
+import { MetricsDb } from "../../metricsDb";
+import { type ExportedMetricPayload, MetricType } from "../../types";
+
+function histogramPayloads(values: number[]): ExportedMetricPayload[] {
+  const metrics = new MetricsDb();
+  for (const value of values) {
+    metrics.storeMetric({
+      type: MetricType.HISTOGRAM,
+      name: "request.duration",
+      value,
+      tags: { route: "/" },
+      timestamp: 1000,
+      unit: "ms",
+      options: { percentiles: [0.99] },
+    });
+  }
+  return metrics.toMetricPayloads(1000, { histograms: true });
+}
+
+/**
+ * Send metrics and get the OTLP metrics posted to the collector
+ */
+async function exportMetrics(
+  sink: OtelMetricSink,
+  metrics: ExportedMetricPayload[],
+): Promise<Metric[]> {
+  const fetch = vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("{}"));
+  await sink.sendMetrics(metrics);
+  const body = JSON.parse(String(fetch.mock.calls[0][1]?.body)) as OTLPMetricsPayload;
+  return body.resourceMetrics.flatMap((resource) =>
+    resource.scopeMetrics.flatMap((scope) => scope.metrics),
+  );
+}
+
+const options = { url: "https://collector.example.com", headers: {} };
+
+describe("OtelMetricSink", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should only export derived histogram metrics by default", async () => {
+    const sink = new OtelMetricSink(options);
+
+    const metrics = await exportMetrics(sink, histogramPayloads([5, 50]));
+
+    expect(sink.nativeHistograms).toBe(false);
+    expect(metrics.map((metric) => metric.name)).toEqual(["request.duration.p99"]);
+  });
+
+  it("should export histograms with explicit buckets", async () => {
+    const sink = new OtelMetricSink({
+      ...options,
+      histogramFormat: "explicit",
+      histogramBounds: [10, 100],
+    });
+
+    const metrics = await exportMetrics(sink, histogramPayloads([5, 50, 50, 500]));
+
+    expect(sink.nativeHistograms).toBe(true);
+    expect(metrics[0]).toMatchObject({
+      name: "request.duration",
+      unit: "ms",
+      histogram: {
+        dataPoints: [
+          {
+            count: "4",
+            sum: 605,
+            min: 5,
+            max: 500,
+            bucketCounts: ["1", "2", "1"],
+            explicitBounds: [10, 100],
+            attributes: [{ key: "route", value: { stringValue: "/" } }],
+          },
+        ],
+        aggregationTemporality: 1,
+      },
+    });
+  });
+
+  it("should export histograms with exponential buckets", async () => {
+    const sink = new OtelMetricSink({ ...options, histogramFormat: "exponential" });
+
+    const [metric] = await exportMetrics(sink, histogramPayloads([100]));
+
+    const [dataPoint] = metric.exponentialHistogram?.dataPoints ?? [];
+    expect(dataPoint).toMatchObject({
+      count: "1",
+      sum: 100,
+      min: 100,
+      max: 100,
+      scale: 20,
+      zeroCount: "0",
+      negative: { offset: 0, bucketCounts: [] },
+    });
+    // The bucket contains the sample, within the sketch's relative accuracy
+    const base = 2 ** (2 ** -dataPoint.scale);
+    const lower = base ** dataPoint.positive.offset;
+    expect(dataPoint.positive.bucketCounts).toEqual(["1"]);
+    expect(lower).toBeLessThan(100 * 1.01);
+    expect(lower * base).toBeGreaterThan(100 * 0.99);
+  });
+
+  it("should lower the scale of exponential histograms to fit the max size", async () => {
+    const sink = new OtelMetricSink({
+      ...options,
+      histogramFormat: "exponential",
+      exponentialHistogramMaxSize: 4,
+    });
+
+    const [metric] = await exportMetrics(
+      sink,
+      histogramPayloads([-8, 0, 1, 2, 4, 1000]),
+    );
+
+    const [dataPoint] = metric.exponentialHistogram?.dataPoints ?? [];
+    const total = (counts: string[]) =>
+      counts.reduce((sum, count) => sum + Number(count), 0);
+    expect(dataPoint.count).toBe("6");
+    expect(dataPoint.zeroCount).toBe("1");
+    expect(total(dataPoint.positive.bucketCounts)).toBe(4);
+    expect(total(dataPoint.negative.bucketCounts)).toBe(1);
+    expect(dataPoint.positive.bucketCounts.length).toBeLessThanOrEqual(4);
+    // 1 to 1000 spans 10 powers of 2, so each bucket must cover at least 4 of them
+    expect(dataPoint.scale).toBeLessThanOrEqual(-2);
+  });
+});
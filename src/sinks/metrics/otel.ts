@@ -1,14 +1,21 @@
-import { type ExportedMetricPayload, MetricType } from "../../types";
+import {
+  type ExportedHistogramMetricPayload,
+  type ExportedMetricPayload,
+  type HistogramDistribution,
+  MetricType,
+} from "../../types";
 
 import {
   AggregationTemporality,
+  type ExponentialHistogramBuckets,
   type KeyValue,
+  type Metric,
   type OTLPMetricsPayload,
   type ResourceMetrics,
   type ScopeMetrics,
 } from "./otel-metrics-types";
 
-import type { MetricSink } from "../sink";
+import { type MetricSink, SinkDeliveryError } from "../sink";
 
 export interface OtelMetricSinkOptions {
   url: string;
@@ -23,14 +30,40 @@ export interface OtelMetricSinkOptions {
    * Only enable if you need to track metrics per isolate instance.
    */
   enableIsolateId?: boolean;
+  /**
+   * Also export histogram series as native OTLP histograms with their count, sum, min and max,
+   * which backends can re-aggregate: `explicit` buckets with the `histogramBounds`, or
+   * `exponential` buckets with a scale picked to fit `exponentialHistogramMaxSize` buckets.
+   * Default: histograms are only exported as their derived percentiles and aggregates
+   */
+  histogramFormat?: "explicit" | "exponential";
+  /**
+   * Upper inclusive bounds of the explicit histogram buckets, in ascending order.
+   * Default: the OpenTelemetry SDK bounds, from 0 to 10000
+   */
+  histogramBounds?: number[];
+  /**
+   * Max number of buckets for positive values, and for negative values, of exponential histograms.
+   * Default: 160
+   */
+  exponentialHistogramMaxSize?: number;
 }
 
+const DEFAULT_HISTOGRAM_BOUNDS = [
+  0, 5, 10, 25, 50, 75, 100, 250, 500, 750, 1000, 2500, 5000, 7500, 10000,
+];
+const DEFAULT_EXPONENTIAL_HISTOGRAM_MAX_SIZE = 160;
+// Scales supported by OTLP exponential histograms
+const MAX_EXPONENTIAL_SCALE = 20;
+const MIN_EXPONENTIAL_SCALE = -10;
+
 export class OtelMetricSink implements MetricSink {
   private options: OtelMetricSinkOptions & {
     scopeName: string;
     scopeVersion: string;
   };
   private isolateId?: string;
+  readonly nativeHistograms: boolean;
 
   constructor(options: OtelMetricSinkOptions) {
     this.options = {
@@ -38,6 +71,7 @@ export class OtelMetricSink implements MetricSink {
       scopeVersion: "0.3.0",
       ...options,
     };
+    this.nativeHistograms = options.histogramFormat !== undefined;
     
     if (options.enableIsolateId) {
       this.isolateId = Math.random().toString(36).substring(2, 15);
@@ -56,8 +90,9 @@ export class OtelMetricSink implements MetricSink {
       // Send via fetch
       await this.exportMetrics(otlpPayload);
     } catch (error) {
-      throw new Error(
-        `Failed to send metrics to OTEL collector: ${error instanceof Error ? error.message : String(error)}`,
+      throw SinkDeliveryError.wrap(
+        "Failed to send metrics to OTEL collector",
+        error,
       );
     }
   }
@@ -127,12 +162,15 @@ export class OtelMetricSink implements MetricSink {
         ...this.options.headers,
       },
       body: JSON.stringify(payload),
+    }).catch((error) => {
+      throw new SinkDeliveryError(String(error), { cause: error });
     });
 
     if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `HTTP ${response.status} ${response.statusText}: ${errorText}`,
+      throw await SinkDeliveryError.fromResponse(
+        response,
+        (errorText) =>
+          `HTTP ${response.status} ${response.statusText}: ${errorText}`,
       );
     }
   }
@@ -158,10 +196,14 @@ export class OtelMetricSink implements MetricSink {
     if (payload.type === MetricType.COUNT) {
       return {
         name: payload.name,
+        ...this.metricMetadata(payload),
         sum: {
           dataPoints: [
             {
-              asInt: String(payload.value),
+              // Upscaled sampled counts can be fractional
+              ...(Number.isInteger(payload.value)
+                ? { asInt: String(payload.value) }
+                : { asDouble: payload.value }),
               attributes,
               timeUnixNano,
             },
@@ -172,9 +214,28 @@ export class OtelMetricSink implements MetricSink {
         },
       };
     }
+    if (payload.type === MetricType.UP_DOWN_COUNTER) {
+      return {
+        name: payload.name,
+        ...this.metricMetadata(payload),
+        sum: {
+          dataPoints: [
+            {
+              asDouble: payload.value,
+              attributes,
+              timeUnixNano,
+            },
+          ],
+          aggregationTemporality:
+            AggregationTemporality.AGGREGATION_TEMPORALITY_DELTA,
+          isMonotonic: false,
+        },
+      };
+    }
     if (payload.type === MetricType.GAUGE) {
       return {
         name: payload.name,
+        ...this.metricMetadata(payload),
         gauge: {
           dataPoints: [
             {
@@ -186,6 +247,79 @@ export class OtelMetricSink implements MetricSink {
         },
       };
     }
+    if (payload.type === MetricType.HISTOGRAM && this.options.histogramFormat) {
+      return this.histogramToMetric(payload, attributes, timeUnixNano);
+    }
+  }
+
+  private histogramToMetric(
+    payload: ExportedHistogramMetricPayload,
+    attributes: KeyValue[],
+    timeUnixNano: string,
+  ): Metric {
+    const { distribution } = payload;
+    const summary = {
+      attributes,
+      timeUnixNano,
+      sum: distribution.sum,
+      ...(distribution.count > 0
+        ? { min: distribution.min, max: distribution.max }
+        : {}),
+    };
+
+    if (this.options.histogramFormat === "exponential") {
+      const { scale, zeroCount, positive, negative, count } = toExponentialBuckets(
+        distribution,
+        this.options.exponentialHistogramMaxSize ??
+          DEFAULT_EXPONENTIAL_HISTOGRAM_MAX_SIZE,
+      );
+      return {
+        name: payload.name,
+        ...this.metricMetadata(payload),
+        exponentialHistogram: {
+          dataPoints: [
+            {
+              ...summary,
+              count: String(count),
+              scale,
+              zeroCount: String(zeroCount),
+              positive,
+              negative,
+            },
+          ],
+          aggregationTemporality:
+            AggregationTemporality.AGGREGATION_TEMPORALITY_DELTA,
+        },
+      };
+    }
+
+    const explicitBounds = this.options.histogramBounds ?? DEFAULT_HISTOGRAM_BOUNDS;
+    const bucketCounts = toExplicitBucketCounts(distribution, explicitBounds);
+    return {
+      name: payload.name,
+      ...this.metricMetadata(payload),
+      histogram: {
+        dataPoints: [
+          {
+            ...summary,
+            count: String(bucketCounts.reduce((total, count) => total + count, 0)),
+            bucketCounts: bucketCounts.map(String),
+            explicitBounds,
+          },
+        ],
+        aggregationTemporality:
+          AggregationTemporality.AGGREGATION_TEMPORALITY_DELTA,
+      },
+    };
+  }
+
+  private metricMetadata(
+    payload: Pick<ExportedMetricPayload, "unit" | "description">,
+  ): Pick<Metric, "unit" | "description"> {
+    return {
+      ...(payload.unit ? { unit: payload.unit } : {}),
+      ...(payload.description ? { description: payload.description } : {}),
+    };
   }
 
   private timestampToNanos(timestampMs: number): string {
@@ -202,3 +336,95 @@ export class OtelMetricSink implements MetricSink {
     return String(baseNanos);
   }
 }
+
+/**
+ * Count the bins of a distribution into explicit buckets. Bins are counted by their estimated value,
+ * so samples within the sketch's relative error of a bound can land in the adjacent bucket.
+ * Weighted counts of sampled histograms are rounded, since OTLP bucket counts are integers.
+ */
+function toExplicitBucketCounts(
+  distribution: HistogramDistribution,
+  bounds: number[],
+): number[] {
+  const counts: number[] = new Array(bounds.length + 1).fill(0);
+  for (const [value, count] of distribution.bins) {
+    const index = bounds.findIndex((bound) => value <= bound);
+    counts[index === -1 ? bounds.length : index] += count;
+  }
+  return counts.map(Math.round);
+}
+
+/**
+ * Count the bins of a distribution into exponential buckets, at the highest scale where the
+ * positive and the negative buckets each span at most `maxSize` buckets.
+ */
+function toExponentialBuckets(
+  distribution: HistogramDistribution,
+  maxSize: number,
+): {
+  scale: number;
+  zeroCount: number;
+  positive: ExponentialHistogramBuckets;
+  negative: ExponentialHistogramBuckets;
+  count: number;
+} {
+  const positive = new Map<number, number>();
+  const negative = new Map<number, number>();
+  let zeroCount = 0;
+  for (const [value, count] of distribution.bins) {
+    if (value === 0) {
+      zeroCount += count;
+      continue;
+    }
+    const buckets = value > 0 ? positive : negative;
+    // Bucket `index` covers (base^index, base^(index + 1)], with base = 2^(2^-scale)
+    const index = Math.ceil(Math.log2(Math.abs(value)) * 2 ** MAX_EXPONENTIAL_SCALE) - 1;
+    buckets.set(index, (buckets.get(index) ?? 0) + count);
+  }
+
+  // Each step down in scale merges pairs of adjacent buckets, halving their indexes
+  let shift = 0;
+  while (
+    MAX_EXPONENTIAL_SCALE - shift > MIN_EXPONENTIAL_SCALE &&
+    Math.max(bucketSpan(positive, shift), bucketSpan(negative, shift)) > maxSize
+  ) {
+    shift++;
+  }
+
+  const positiveBuckets = toBuckets(positive, shift);
+  const negativeBuckets = toBuckets(negative, shift);
+  const roundedZeroCount = Math.round(zeroCount);
+  return {
+    scale: MAX_EXPONENTIAL_SCALE - shift,
+    zeroCount: roundedZeroCount,
+    positive: positiveBuckets,
+    negative: negativeBuckets,
+    count: [...positiveBuckets.bucketCounts, ...negativeBuckets.bucketCounts].reduce(
+      (total, count) => total + Number(count),
+      roundedZeroCount,
+    ),
+  };
+}
+
+function bucketSpan(buckets: Map<number, number>, shift: number): number {
+  if (buckets.size === 0) {
+    return 0;
+  }
+  const indexes = Array.from(buckets.keys(), (index) => index >> shift);
+  return Math.max(...indexes) - Math.min(...indexes) + 1;
+}
+
+function toBuckets(
+  buckets: Map<number, number>,
+  shift: number,
+): ExponentialHistogramBuckets {
+  if (buckets.size === 0) {
+    return { offset: 0, bucketCounts: [] };
+  }
+  const offset = Math.min(...Array.from(buckets.keys(), (index) => index >> shift));
+  const counts: number[] = new Array(bucketSpan(buckets, shift)).fill(0);
+  for (const [index, count] of buckets) {
+    counts[(index >> shift) - offset] += count;
+  }
+  return { offset, bucketCounts: counts.map((count) => String(Math.round(count))) };
+}
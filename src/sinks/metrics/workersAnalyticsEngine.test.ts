@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from "vitest";
+import { WorkersAnalyticsEngineSink } from "./workersAnalyticsEngine";
+import { isRetryableError } from "../../retry";
+import { type ExportedMetricPayload, MetricType } from "../../types";
+
+function createDataset(): AnalyticsEngineDataset {
+  return { writeDataPoint: vi.fn() };
+}
+
+const requests: ExportedMetricPayload = {
+  type: MetricType.COUNT,
+  name: "worker.requests",
+  value: 3,
+  tags: { scriptName: "api" },
+  timestamp: 60_000,
+};
+
+describe("WorkersAnalyticsEngineSink", () => {
+  it("should write up/down counters with their signed value", async () => {
+    const dataset = createDataset();
+    const sink = new WorkersAnalyticsEngineSink({ datasetBinding: dataset });
+
+    await sink.sendMetrics([
+      {
+        type: MetricType.UP_DOWN_COUNTER,
+        name: "worker.active_connections",
+        value: -2,
+        tags: { scriptName: "api" },
+        timestamp: 60_000,
+      },
+    ]);
+
+    expect(dataset.writeDataPoint).toHaveBeenCalledWith({
+      blobs: ["UP_DOWN_COUNTER", "api", "", "", "", "", "", "", "", ""],
+      doubles: [60_000, -2],
+      indexes: ["worker.active_connections#api"],
+    });
+  });
+
+  it("should fail with a retryable error when a data point can't be written", async () => {
+    const dataset = createDataset();
+    vi.mocked(dataset.writeDataPoint).mockImplementation(() => {
+      throw new Error("Too many data points");
+    });
+    const sink = new WorkersAnalyticsEngineSink({ datasetBinding: dataset });
+
+    await expect(sink.sendMetrics([requests])).rejects.toSatisfy(isRetryableError);
+  });
+});
@@ -1,5 +1,5 @@
 import type { ExportedMetricPayload } from "../../types";
-import type { MetricSink } from "../sink";
+import { type MetricSink, SinkDeliveryError } from "../sink";
 
 export interface WAEMetricSinkOptions {
   /**
@@ -30,7 +30,7 @@ export class WorkersAnalyticsEngineSink implements MetricSink {
         await this.sendMetric(payload);
       }
     } catch (error) {
-      throw new Error(`Failed to send metrics to Workers Analytics Engine: ${error instanceof Error ? error.message : String(error)}`);
+      throw SinkDeliveryError.wrap("Failed to send metrics to Workers Analytics Engine", error);
     }
   }
 
@@ -49,7 +49,11 @@ export class WorkersAnalyticsEngineSink implements MetricSink {
         indexes: index,
       });
     } catch (error) {
-      throw new Error(`Failed to write datapoint to Analytics Engine: ${error instanceof Error ? error.message : String(error)}`);
+      // Write failures are retried, unlike a missing binding
+      throw new SinkDeliveryError(
+        `Failed to write datapoint to Analytics Engine: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error },
+      );
     }
   }
 
@@ -1,10 +1,91 @@
 import type { ExportedMetricPayload } from "../types";
+import type { MetricAggregate } from "../metricsDb";
 import type { TraceItem } from "@cloudflare/workers-types";
 
+/**
+ * A backend that metrics are delivered to. Failures are only retried and dead-lettered when
+ * the sink throws a retryable `SinkDeliveryError`, other errors are logged and the metrics dropped.
+ */
 export interface MetricSink {
   sendMetrics: (metrics: ExportedMetricPayload[]) => Promise<void>;
+  /**
+   * Sinks implementing this receive the mergeable state of each series when the buffer is flushed,
+   * instead of the exported metrics. Dead letters of the aggregates are redelivered with it too.
+   */
+  sendAggregates?: (aggregates: MetricAggregate[]) => Promise<void>;
+  /**
+   * Sinks setting this also receive each histogram series as a HISTOGRAM metric with its distribution,
+   * next to the derived percentiles and aggregates.
+   */
+  nativeHistograms?: boolean;
 }
 
 export interface LogSink {
   sendLogs: (traceItems: TraceItem[]) => Promise<void>;
 }
+
+/**
+ * A failed delivery to a sink's backend. Errors with a `status` come from an HTTP response,
+ * errors without one from a request that didn't get a response.
+ */
+export class SinkDeliveryError extends Error {
+  readonly status?: number;
+  /**
+   * Delay requested by the backend with a `Retry-After` header
+   */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options: { status?: number; retryAfterMs?: number; cause?: unknown } = {},
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "SinkDeliveryError";
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  /**
+   * Create an error from a failed HTTP response, reading its `Retry-After` header
+   */
+  static async fromResponse(
+    response: Response,
+    message: (body: string) => string,
+  ): Promise<SinkDeliveryError> {
+    const body = await response.text();
+    return new SinkDeliveryError(message(body), {
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")),
+    });
+  }
+
+  /**
+   * Prefix the message of an error, keeping the delivery details of a `SinkDeliveryError`
+   */
+  static wrap(prefix: string, error: unknown): Error {
+    const message = `${prefix}: ${error instanceof Error ? error.message : String(error)}`;
+    if (error instanceof SinkDeliveryError) {
+      return new SinkDeliveryError(message, {
+        status: error.status,
+        retryAfterMs: error.retryAfterMs,
+        cause: error,
+      });
+    }
+    return new Error(message);
+  }
+}
+
+/**
+ * Parse a `Retry-After` header, either a number of seconds or an HTTP date
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
@@ -1,6 +1,9 @@
 import type { TraceItem } from "@cloudflare/workers-types";
 import { MetricsTail, type MetricTailOptions } from "./metricsTail";
 import { LogsTail, type LogTailOptions } from "./logsTail";
+import type { DeadLetterBatch } from "./deadLetter/store";
+import type { MetricDeadLetter } from "./metricsDelivery";
+import type { ReplayResult } from "./deadLetter/handler";
 export { DatadogMetricSink } from "./sinks/metrics/datadog";
 export { WorkersAnalyticsEngineSink } from "./sinks/metrics/workersAnalyticsEngine";
 export { OtelMetricSink } from "./sinks/metrics/otel";
@@ -33,4 +36,46 @@ export class TailExporter {
       this.#logsTail.processTraceItems(traceItems, ctx);
     }
   }
+
+  /**
+   * Redeliver the batches in the dead-letter stores, e.g. from a scheduled handler
+   */
+  redeliver(ctx: ExecutionContext): void {
+    this.#metricsTail?.redeliver(ctx);
+    this.#logsTail?.redeliver(ctx);
+  }
+
+  /**
+   * Deliver dead-letter batches read from a store that can't be listed, e.g. the messages
+   * of a Queue consumer. Batches are delivered in id order.
+   * @returns The ids of the delivered, expired and failed batches. Failed batches should be retried later.
+   */
+  async replayDeadLetters(batches: DeadLetterBatch[]): Promise<ReplayResult> {
+    const metricBatches = batches.filter((batch) => batch.kind === "metrics");
+    const logBatches = batches.filter((batch) => batch.kind === "logs");
+    const unhandled = (handled: DeadLetterBatch[]): ReplayResult => ({
+      delivered: [],
+      expired: [],
+      failed: handled.map((batch) => batch.id),
+    });
+
+    const [metrics, logs] = await Promise.all([
+      this.#metricsTail
+        ? this.#metricsTail.replayDeadLetters(
+            metricBatches as DeadLetterBatch<MetricDeadLetter>[],
+          )
+        : unhandled(metricBatches),
+      this.#logsTail
+        ? this.#logsTail.replayDeadLetters(
+            logBatches as DeadLetterBatch<TraceItem>[],
+          )
+        : unhandled(logBatches),
+    ]);
+
+    return {
+      delivered: [...metrics.delivered, ...logs.delivered],
+      expired: [...metrics.expired, ...logs.expired],
+      failed: [...metrics.failed, ...logs.failed],
+    };
+  }
 }
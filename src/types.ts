@@ -4,15 +4,46 @@ export enum MetricType {
   COUNT = "COUNT",
   GAUGE = "GAUGE",
   HISTOGRAM = "HISTOGRAM",
+  UP_DOWN_COUNTER = "UP_DOWN_COUNTER",
+  SET = "SET",
 }
 
 export type Tags = Record<string, string | number | boolean | undefined | null>;
 
+export interface MetricOptions {
+  /**
+   * Unit of the metric value, preferably a UCUM unit such as `ms`, `s` or `By`
+   */
+  unit?: string;
+  /**
+   * Human readable description of the metric
+   */
+  description?: string;
+  /**
+   * Fraction of calls, between 0 and 1, that are actually published.
+   * The tail scales counts and weights histogram samples by `1 / sampleRate`
+   * so exported values stay unbiased. Gauges are sampled but not scaled.
+   * Default: 1 (no sampling)
+   */
+  sampleRate?: number;
+}
+
+/**
+ * Sets can't be sampled since distinct counts can't be upscaled
+ */
+export type SetMetricOptions = Omit<MetricOptions, "sampleRate">;
+
 interface BaseMetricPayload {
   type: MetricType;
   name: string;
-  value: number;
+  value: number | string;
   tags: Tags;
+  unit?: string;
+  description?: string;
+  /**
+   * Set when the producer sampled the metric, see `MetricOptions.sampleRate`
+   */
+  sampleRate?: number;
 }
 
 export type HistogramAggregates =
@@ -23,7 +54,7 @@ export type HistogramAggregates =
   | "median"
   | "count";
 
-export interface HistogramOptions {
+export interface HistogramOptions extends MetricOptions {
   aggregates?: HistogramAggregates[];
   /**
   Percentiles can include any decimal between 0 and 1.
@@ -47,9 +78,65 @@ export interface HistogramMetricPayload extends BaseMetricPayload {
   options: HistogramOptions;
 }
 
+export interface UpDownCounterMetricPayload extends BaseMetricPayload {
+  type: MetricType.UP_DOWN_COUNTER;
+  value: number;
+}
+
+export interface SetMetricPayload extends BaseMetricPayload {
+  type: MetricType.SET;
+  /**
+   * The identifier to count. Only the number of distinct identifiers is exported.
+   */
+  value: string | number;
+}
+
 export type MetricPayload =
   | CountMetricPayload
   | GaugeMetricPayload
-  | HistogramMetricPayload;
+  | HistogramMetricPayload
+  | UpDownCounterMetricPayload
+  | SetMetricPayload;
+
+export type TimestampedMetricPayload = MetricPayload & { timestamp: number };
+
+/**
+ * Distribution of the samples of a histogram series, as summarized by its sketch
+ */
+export interface HistogramDistribution {
+  /**
+   * Total weight of the samples
+   */
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  /**
+   * Estimated values of the sketch's bins with their total weight, by ascending value
+   */
+  bins: [value: number, count: number][];
+}
+
+/**
+ * A histogram series exported with its distribution, for sinks with native histograms
+ */
+export interface ExportedHistogramMetricPayload
+  extends Omit<HistogramMetricPayload, "value"> {
+  /**
+   * Total weight of the samples
+   */
+  value: number;
+  distribution: HistogramDistribution;
+}
 
-export type ExportedMetricPayload = MetricPayload & { timestamp: number };
\ No newline at end of file
+/**
+ * A metric ready to be sent to a sink. Sets are always exported as a gauge of their distinct count.
+ * Histograms are exported as their derived percentiles and aggregates, and only sinks with
+ * `nativeHistograms` receive them as HISTOGRAM metrics.
+ */
+export type ExportedMetricPayload = (
+  | Exclude<MetricPayload, SetMetricPayload | HistogramMetricPayload>
+  | ExportedHistogramMetricPayload
+) & {
+  timestamp: number;
+};
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { HyperLogLog } from "./hyperloglog";
+
+describe("HyperLogLog", () => {
+  it("should count small sets exactly enough", () => {
+    const sketch = new HyperLogLog();
+    for (const value of ["a", "b", "c", "a", "b", "a"]) {
+      sketch.add(value);
+    }
+
+    expect(sketch.count()).toBe(3);
+  });
+
+  it("should estimate large cardinalities within a few percent", () => {
+    const sketch = new HyperLogLog();
+    for (let i = 0; i < 50000; i++) {
+      sketch.add(`user-${i}`);
+      sketch.add(`user-${i}`);
+    }
+
+    const estimate = sketch.count();
+    expect(Math.abs(estimate - 50000) / 50000).toBeLessThan(0.05);
+  });
+
+  it("should keep memory bounded regardless of cardinality", () => {
+    const sketch = new HyperLogLog(10);
+    for (let i = 0; i < 10000; i++) {
+      sketch.add(String(i));
+    }
+
+    expect(sketch.registers.byteLength).toBe(1024);
+  });
+
+  it("should merge sketches as a union", () => {
+    const left = new HyperLogLog();
+    const right = new HyperLogLog();
+    for (let i = 0; i < 1000; i++) {
+      left.add(`key-${i}`);
+      right.add(`key-${i + 500}`);
+    }
+
+    left.merge(right);
+
+    const estimate = left.count();
+    expect(Math.abs(estimate - 1500) / 1500).toBeLessThan(0.05);
+  });
+
+  it("should reject merging sketches with different precisions", () => {
+    expect(() => new HyperLogLog(12).merge(new HyperLogLog(10))).toThrow();
+  });
+});
@@ -0,0 +1,41 @@
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    value !== null &&
+    (typeof value === "object" || typeof value === "function") &&
+    typeof (value as PromiseLike<unknown>).then === "function"
+  );
+}
+
+/**
+ * Run a sync or async function and call `callback` once it has returned, resolved,
+ * thrown or rejected, with whether it failed.
+ * @returns The return value of `fn`
+ */
+export function onSettled<T>(
+  fn: () => T,
+  callback: (failed: boolean) => void,
+): T {
+  let result: T;
+  try {
+    result = fn();
+  } catch (error) {
+    callback(true);
+    throw error;
+  }
+
+  if (isPromiseLike(result)) {
+    return result.then(
+      (value) => {
+        callback(false);
+        return value;
+      },
+      (error) => {
+        callback(true);
+        throw error;
+      },
+    ) as T;
+  }
+
+  callback(false);
+  return result;
+}
@@ -0,0 +1,35 @@
+import { bench, describe } from "vitest";
+import { DDSketch } from "./sketch";
+
+const SAMPLES = 100_000;
+// Latencies between 1ms and 10s
+const samples = Array.from({ length: SAMPLES }, (_, i) => 1 + ((i * 7919) % 10_000));
+const PERCENTILES = [0.5, 0.9, 0.95, 0.99];
+
+/**
+ * CPU time of recording the samples of a histogram and computing its percentiles at flush time,
+ * with raw sample arrays and with a sketch. The Workers pool doesn't run benchmarks, so they run
+ * in Node with `pnpm bench`.
+ */
+describe("record and flush 100k samples", () => {
+  bench("raw array", () => {
+    const values: number[] = [];
+    for (const sample of samples) {
+      values.push(sample);
+    }
+    values.sort((a, b) => a - b);
+    for (const percentile of PERCENTILES) {
+      values[Math.max(Math.ceil(percentile * values.length) - 1, 0)];
+    }
+  });
+
+  bench("DDSketch", () => {
+    const sketch = new DDSketch();
+    for (const sample of samples) {
+      sketch.add(sample);
+    }
+    for (const percentile of PERCENTILES) {
+      sketch.quantile(percentile);
+    }
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect } from "vitest";
+import { DDSketch, ddSketch } from "./sketch";
+
+/**
+ * Exact quantile of sorted samples, with the same definition as `QuantileSketch.quantile`
+ */
+function exactQuantile(sorted: number[], quantile: number): number {
+  return sorted[Math.max(Math.ceil(quantile * sorted.length) - 1, 0)];
+}
+
+describe("DDSketch", () => {
+  it("should estimate quantiles within the relative accuracy", () => {
+    const sketch = new DDSketch({ relativeAccuracy: 0.01 });
+    const values: number[] = [];
+    for (let i = 1; i <= 10000; i++) {
+      // Spread the values over several orders of magnitude
+      const value = Math.exp(i / 1000);
+      values.push(value);
+      sketch.add(value);
+    }
+
+    for (const quantile of [0.1, 0.5, 0.9, 0.95, 0.99]) {
+      const exact = exactQuantile(values, quantile);
+      expect(Math.abs(sketch.quantile(quantile) - exact) / exact).toBeLessThanOrEqual(0.01);
+    }
+  });
+
+  it("should keep count, sum, min and max exact", () => {
+    const sketch = new DDSketch();
+    for (const value of [12, 3, 7.5, 40]) {
+      sketch.add(value);
+    }
+
+    expect(sketch.count).toBe(4);
+    expect(sketch.sum).toBe(62.5);
+    expect(sketch.min).toBe(3);
+    expect(sketch.max).toBe(40);
+    expect(sketch.quantile(0)).toBe(3);
+    expect(sketch.quantile(1)).toBe(40);
+  });
+
+  it("should weight samples", () => {
+    const sketch = new DDSketch();
+    sketch.add(100, 1);
+    sketch.add(500, 9);
+
+    expect(sketch.count).toBe(10);
+    expect(sketch.sum).toBe(4600);
+    expect(sketch.quantile(0.1)).toBe(100);
+    expect(sketch.quantile(0.5)).toBe(500);
+  });
+
+  it("should ignore samples that aren't finite or have no weight", () => {
+    const sketch = new DDSketch();
+    sketch.add(Number.NaN);
+    sketch.add(Number.POSITIVE_INFINITY);
+    sketch.add(5, 0);
+
+    expect(sketch.count).toBe(0);
+    expect(sketch.quantile(0.5)).toBeNaN();
+  });
+
+  it("should order negative values, zero and positive values", () => {
+    const sketch = new DDSketch();
+    for (const value of [-100, -10, 0, 0, 10, 100]) {
+      sketch.add(value);
+    }
+
+    expect(sketch.quantile(0.1)).toBe(-100);
+    expect(sketch.quantile(0.3)).toBeCloseTo(-10, 0);
+    expect(sketch.quantile(0.5)).toBe(0);
+    expect(sketch.quantile(0.8)).toBeCloseTo(10, 0);
+    expect(sketch.quantile(0.99)).toBe(100);
+  });
+
+  it("should list bins by ascending value within the min and max", () => {
+    const sketch = new DDSketch();
+    for (const value of [10, -5, 0, 10, 1000]) {
+      sketch.add(value);
+    }
+
+    expect(sketch.bins()).toEqual([
+      [-5, 1],
+      [0, 1],
+      [expect.closeTo(10, 0), 2],
+      [1000, 1],
+    ]);
+  });
+
+  it("should merge sketches as if every sample was added to one", () => {
+    const left = new DDSketch();
+    const right = new DDSketch();
+    const all = new DDSketch();
+    for (let i = 1; i <= 1000; i++) {
+      (i % 2 === 0 ? left : right).add(i);
+      all.add(i);
+    }
+
+    left.merge(right);
+
+    expect(left.count).toBe(1000);
+    expect(left.sum).toBe(all.sum);
+    for (const quantile of [0.25, 0.5, 0.99]) {
+      expect(left.quantile(quantile)).toBe(all.quantile(quantile));
+    }
+  });
+
+  it("should reject merging sketches with different accuracies", () => {
+    expect(() =>
+      new DDSketch({ relativeAccuracy: 0.01 }).merge(new DDSketch({ relativeAccuracy: 0.02 })),
+    ).toThrow();
+  });
+
+  it("should bound the number of bins", () => {
+    const sketch = new DDSketch({ maxBins: 64 });
+    for (let i = 0; i < 1000; i++) {
+      sketch.add(1.1 ** i);
+    }
+
+    expect(sketch.binCount).toBeLessThanOrEqual(64);
+    expect(sketch.count).toBe(1000);
+    // Collapsing only affects the lowest values
+    expect(Math.abs(sketch.quantile(0.99) - 1.1 ** 989) / 1.1 ** 989).toBeLessThanOrEqual(0.01);
+  });
+
+  it("should restore a sketch from its state", () => {
+    const factory = ddSketch({ relativeAccuracy: 0.02 });
+    const sketch = factory.create();
+    for (const value of [-3, 0, 1, 2, 30, 400]) {
+      sketch.add(value);
+    }
+
+    const restored = factory.fromState(structuredClone(sketch.toState()));
+
+    expect(restored.toState()).toEqual(sketch.toState());
+    expect(restored.quantile(0.5)).toBe(sketch.quantile(0.5));
+    restored.merge(sketch);
+    expect(restored.count).toBe(12);
+  });
+
+  describe("100k samples", () => {
+    const SAMPLES = 100_000;
+    // Latencies between 1ms and 10s
+    const samples = Array.from({ length: SAMPLES }, (_, i) => 1 + ((i * 7919) % 10_000));
+
+    it("should use less memory than the raw samples", () => {
+      const sketch = new DDSketch();
+      for (const sample of samples) {
+        sketch.add(sample);
+      }
+      const binCount = sketch.binCount;
+      for (const sample of samples) {
+        sketch.add(sample);
+      }
+
+      // Raw arrays grow with every sample, the sketch only with the range of the values
+      expect(sketch.binCount).toBe(binCount);
+      expect(sketch.count).toBe(2 * SAMPLES);
+      expect(JSON.stringify(sketch.toState()).length).toBeLessThan(
+        JSON.stringify(samples).length / 20,
+      );
+    });
+
+    it("should estimate percentiles within the relative accuracy", () => {
+      const sketch = new DDSketch({ relativeAccuracy: 0.01 });
+      for (const sample of samples) {
+        sketch.add(sample);
+      }
+
+      const sorted = [...samples].sort((a, b) => a - b);
+      for (const percentile of [0.5, 0.9, 0.95, 0.99]) {
+        const exact = exactQuantile(sorted, percentile);
+        expect(Math.abs(sketch.quantile(percentile) - exact) / exact).toBeLessThanOrEqual(0.01);
+      }
+    });
+  });
+});
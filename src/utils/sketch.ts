@@ -0,0 +1,358 @@
+/**
+ * Plain data of a sketch, which can be sent over RPC and persisted
+ */
+export interface QuantileSketchState {
+  kind: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A mergeable summary of a distribution of weighted samples, with bounded memory
+ */
+export interface QuantileSketch {
+  /**
+   * Total weight of the samples
+   */
+  readonly count: number;
+  /**
+   * Weighted sum of the samples
+   */
+  readonly sum: number;
+  readonly min: number;
+  readonly max: number;
+  add(value: number, weight?: number): void;
+  /**
+   * Merge another sketch of the same kind and configuration into this one
+   */
+  merge(other: QuantileSketch): void;
+  /**
+   * Estimate the smallest value whose cumulative weight reaches the quantile, between 0 and 1
+   */
+  quantile(quantile: number): number;
+  /**
+   * Estimated values of the sketch's bins with their total weight, by ascending value
+   */
+  bins(): [value: number, count: number][];
+  toState(): QuantileSketchState;
+}
+
+/**
+ * Creates the sketches of histogram series, and restores them from their state
+ */
+export interface QuantileSketchFactory {
+  create(): QuantileSketch;
+  fromState(state: QuantileSketchState): QuantileSketch;
+}
+
+export interface DDSketchOptions {
+  /**
+   * Max relative error of the estimated quantiles, between 0 and 1.
+   * Default: 0.01
+   */
+  relativeAccuracy?: number;
+  /**
+   * Max number of bins for positive values, and for negative values. Beyond it the bins of
+   * the values closest to zero are collapsed, which only affects the accuracy of those values.
+   * Default: 2048
+   */
+  maxBins?: number;
+}
+
+interface BinsState {
+  bins: [key: number, count: number][];
+  /**
+   * Keys below this were collapsed into it
+   */
+  collapsedBelow?: number;
+}
+
+interface DDSketchState extends QuantileSketchState {
+  kind: "ddsketch";
+  relativeAccuracy: number;
+  maxBins: number;
+  positive: BinsState;
+  negative: BinsState;
+  zeroCount: number;
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+}
+
+const DEFAULT_RELATIVE_ACCURACY = 0.01;
+const DEFAULT_MAX_BINS = 2048;
+// Values closer to zero than this are counted as zero
+const MIN_INDEXABLE_VALUE = 1e-9;
+
+/**
+ * Counts of a sketch's bins by key, keeping at most `maxBins` bins
+ */
+class Bins {
+  readonly counts = new Map<number, number>();
+  #maxBins: number;
+  #collapsedBelow = Number.NEGATIVE_INFINITY;
+
+  constructor(maxBins: number) {
+    this.#maxBins = maxBins;
+  }
+
+  add(key: number, count: number): void {
+    const binKey = Math.max(key, this.#collapsedBelow);
+    this.counts.set(binKey, (this.counts.get(binKey) ?? 0) + count);
+    if (this.counts.size > this.#maxBins) {
+      const keys = this.sortedKeys();
+      this.collapseBelow(keys[keys.length - this.#maxBins]);
+    }
+  }
+
+  /**
+   * Merge the bins with a key below `floor` into the bin of `floor`
+   */
+  collapseBelow(floor: number): void {
+    if (floor <= this.#collapsedBelow) {
+      return;
+    }
+    this.#collapsedBelow = floor;
+    let collapsed = 0;
+    for (const [key, count] of this.counts) {
+      if (key < floor) {
+        collapsed += count;
+        this.counts.delete(key);
+      }
+    }
+    if (collapsed > 0) {
+      this.counts.set(floor, (this.counts.get(floor) ?? 0) + collapsed);
+    }
+  }
+
+  merge(other: Bins): void {
+    this.collapseBelow(other.#collapsedBelow);
+    for (const [key, count] of other.counts) {
+      this.add(key, count);
+    }
+  }
+
+  sortedKeys(): number[] {
+    return Array.from(this.counts.keys()).sort((a, b) => a - b);
+  }
+
+  toState(): BinsState {
+    return {
+      bins: Array.from(this.counts),
+      ...(Number.isFinite(this.#collapsedBelow)
+        ? { collapsedBelow: this.#collapsedBelow }
+        : {}),
+    };
+  }
+
+  static fromState(state: BinsState, maxBins: number): Bins {
+    const bins = new Bins(maxBins);
+    if (state.collapsedBelow !== undefined) {
+      bins.collapseBelow(state.collapsedBelow);
+    }
+    for (const [key, count] of state.bins) {
+      bins.add(key, count);
+    }
+    return bins;
+  }
+}
+
+/**
+ * A DDSketch, which estimates quantiles with a bounded relative error. Samples are counted in
+ * logarithmically sized bins, so memory only grows with the range of the values, up to `maxBins`.
+ * Count, sum, min and max are exact.
+ * @see https://www.vldb.org/pvldb/vol12/p2195-masson.pdf
+ */
+export class DDSketch implements QuantileSketch {
+  readonly relativeAccuracy: number;
+  readonly maxBins: number;
+  #gamma: number;
+  #logGamma: number;
+  #positive: Bins;
+  #negative: Bins;
+  #zeroCount = 0;
+  #count = 0;
+  #sum = 0;
+  #min = Number.POSITIVE_INFINITY;
+  #max = Number.NEGATIVE_INFINITY;
+
+  constructor(options: DDSketchOptions = {}) {
+    const relativeAccuracy = options.relativeAccuracy ?? DEFAULT_RELATIVE_ACCURACY;
+    if (!(relativeAccuracy > 0 && relativeAccuracy < 1)) {
+      throw new Error(
+        `DDSketch relative accuracy must be between 0 and 1, got ${relativeAccuracy}`,
+      );
+    }
+    this.relativeAccuracy = relativeAccuracy;
+    this.maxBins = options.maxBins ?? DEFAULT_MAX_BINS;
+    this.#gamma = (1 + relativeAccuracy) / (1 - relativeAccuracy);
+    this.#logGamma = Math.log(this.#gamma);
+    this.#positive = new Bins(this.maxBins);
+    this.#negative = new Bins(this.maxBins);
+  }
+
+  get count(): number {
+    return this.#count;
+  }
+
+  get sum(): number {
+    return this.#sum;
+  }
+
+  get min(): number {
+    return this.#min;
+  }
+
+  get max(): number {
+    return this.#max;
+  }
+
+  /**
+   * Number of bins in use, which bounds the memory of the sketch
+   */
+  get binCount(): number {
+    return this.#positive.counts.size + this.#negative.counts.size;
+  }
+
+  /**
+   * Add a sample. Samples that aren't finite numbers, or have no positive weight, are ignored.
+   */
+  add(value: number, weight = 1): void {
+    if (!Number.isFinite(value) || !(weight > 0)) {
+      return;
+    }
+
+    if (value > MIN_INDEXABLE_VALUE) {
+      this.#positive.add(this.#key(value), weight);
+    } else if (value < -MIN_INDEXABLE_VALUE) {
+      this.#negative.add(this.#key(-value), weight);
+    } else {
+      this.#zeroCount += weight;
+    }
+    this.#count += weight;
+    this.#sum += value * weight;
+    this.#min = Math.min(this.#min, value);
+    this.#max = Math.max(this.#max, value);
+  }
+
+  merge(other: QuantileSketch): void {
+    if (
+      !(other instanceof DDSketch) ||
+      other.relativeAccuracy !== this.relativeAccuracy
+    ) {
+      throw new Error(
+        "Cannot merge a DDSketch with a sketch of a different kind or relative accuracy",
+      );
+    }
+    this.#positive.merge(other.#positive);
+    this.#negative.merge(other.#negative);
+    this.#zeroCount += other.#zeroCount;
+    this.#count += other.#count;
+    this.#sum += other.#sum;
+    this.#min = Math.min(this.#min, other.#min);
+    this.#max = Math.max(this.#max, other.#max);
+  }
+
+  quantile(quantile: number): number {
+    if (this.#count === 0) {
+      return Number.NaN;
+    }
+    if (quantile <= 0) {
+      return this.#min;
+    }
+    if (quantile >= 1) {
+      return this.#max;
+    }
+
+    const bins = this.bins();
+    const target = quantile * this.#count;
+    let cumulative = 0;
+    for (let i = 0; i < bins.length; i++) {
+      const [value, count] = bins[i];
+      cumulative += count;
+      if (cumulative >= target) {
+        // The extreme bins contain the exact min and max, which are within the bin's error
+        if (i === 0) {
+          return this.#min;
+        }
+        if (i === bins.length - 1) {
+          return this.#max;
+        }
+        return value;
+      }
+    }
+    return this.#max;
+  }
+
+  /**
+   * Estimates are clamped to the exact min and max
+   */
+  bins(): [value: number, count: number][] {
+    const clamp = (value: number) => Math.min(Math.max(value, this.#min), this.#max);
+    // Negative values by decreasing magnitude, zero, positive values
+    return [
+      ...this.#negative
+        .sortedKeys()
+        .reverse()
+        .map((key): [number, number] => [clamp(-this.#value(key)), this.#negative.counts.get(key) ?? 0]),
+      ...(this.#zeroCount > 0 ? [[0, this.#zeroCount] as [number, number]] : []),
+      ...this.#positive
+        .sortedKeys()
+        .map((key): [number, number] => [clamp(this.#value(key)), this.#positive.counts.get(key) ?? 0]),
+    ];
+  }
+
+  toState(): DDSketchState {
+    return {
+      kind: "ddsketch",
+      relativeAccuracy: this.relativeAccuracy,
+      maxBins: this.maxBins,
+      positive: this.#positive.toState(),
+      negative: this.#negative.toState(),
+      zeroCount: this.#zeroCount,
+      count: this.#count,
+      sum: this.#sum,
+      min: this.#min,
+      max: this.#max,
+    };
+  }
+
+  static fromState(state: QuantileSketchState): DDSketch {
+    if (state.kind !== "ddsketch") {
+      throw new Error(`Cannot restore a DDSketch from a ${state.kind} sketch`);
+    }
+    const ddState = state as DDSketchState;
+    const sketch = new DDSketch(ddState);
+    sketch.#positive = Bins.fromState(ddState.positive, sketch.maxBins);
+    sketch.#negative = Bins.fromState(ddState.negative, sketch.maxBins);
+    sketch.#zeroCount = ddState.zeroCount;
+    sketch.#count = ddState.count;
+    sketch.#sum = ddState.sum;
+    sketch.#min = ddState.min;
+    sketch.#max = ddState.max;
+    return sketch;
+  }
+
+  #key(value: number): number {
+    return Math.ceil(Math.log(value) / this.#logGamma);
+  }
+
+  /**
+   * Estimate of the values in a bin, within the relative accuracy of all of them
+   */
+  #value(key: number): number {
+    return (2 * this.#gamma ** key) / (this.#gamma + 1);
+  }
+}
+
+/**
+ * Create DDSketches for histogram series
+ * @example
+ * new TailExporter({ metrics: { sinks, histogramSketch: ddSketch({ relativeAccuracy: 0.005 }) } });
+ */
+export function ddSketch(options: DDSketchOptions = {}): QuantileSketchFactory {
+  return {
+    create: () => new DDSketch(options),
+    fromState: (state) => DDSketch.fromState(state),
+  };
+}
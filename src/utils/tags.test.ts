@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { TagNormalizer } from "./tags";
+
+describe("TagNormalizer", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should drop nullish tags silently", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const normalizer = new TagNormalizer();
+
+    expect(
+      normalizer.normalize("test.metric", {
+        service: "api",
+        version: undefined,
+        region: null,
+      }),
+    ).toEqual({ service: "api" });
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("should coerce unsupported values and sanitize keys", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const normalizer = new TagNormalizer();
+
+    expect(
+      normalizer.normalize("test.metric", {
+        "user id": 42,
+        "http.status": 200,
+        ratio: Number.NaN,
+        big: BigInt(10),
+        path: "/users",
+        cached: false,
+      }),
+    ).toEqual({
+      user_id: 42,
+      "http.status": 200,
+      ratio: "NaN",
+      big: "10",
+      path: "/users",
+      cached: false,
+    });
+  });
+
+  it("should enforce the max tag count and value length", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const normalizer = new TagNormalizer({ maxTags: 2, maxValueLength: 3 });
+
+    expect(
+      normalizer.normalize("test.metric", { a: "abcdef", b: 1, c: 2 }),
+    ).toEqual({ a: "abc", b: 1 });
+  });
+
+  it("should keep tags as they are when rules are disabled", () => {
+    const normalizer = new TagNormalizer({
+      dropNullish: false,
+      coerceValues: false,
+      sanitizeKeys: false,
+    });
+
+    expect(
+      normalizer.normalize("test.metric", { "user id": "1", version: null }),
+    ).toEqual({ "user id": "1", version: null });
+  });
+
+  it("should warn once per offending metric name", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const normalizer = new TagNormalizer();
+
+    normalizer.normalize("test.first", { "bad key": "a" });
+    normalizer.normalize("test.first", { "bad key": "b" });
+    normalizer.normalize("test.second", { "bad key": "c" });
+
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenNthCalledWith(
+      1,
+      'Normalized tags of metric "test.first": sanitized key "bad key"',
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import type { Tags } from "../types";
+
+export interface TagNormalizationOptions {
+  /**
+   * Drop tags whose value is `undefined` or `null` instead of exporting them as `key:undefined`.
+   * Default: true
+   */
+  dropNullish?: boolean;
+  /**
+   * Convert values that aren't a string, finite number or boolean (objects, bigints, NaN...) to strings.
+   * Default: true
+   */
+  coerceValues?: boolean;
+  /**
+   * Replace characters in tag keys outside of `A-Z a-z 0-9 _ - . : /` with `_`.
+   * Default: true
+   */
+  sanitizeKeys?: boolean;
+  /**
+   * Max number of tags on a metric, extra tags are dropped.
+   * Default: 50
+   */
+  maxTags?: number;
+  /**
+   * Max length of a string tag value, longer values are truncated.
+   * Default: 200
+   */
+  maxValueLength?: number;
+}
+
+const DEFAULT_OPTIONS: Required<TagNormalizationOptions> = {
+  dropNullish: true,
+  coerceValues: true,
+  sanitizeKeys: true,
+  maxTags: 50,
+  maxValueLength: 200,
+};
+
+const UNSAFE_KEY_CHARACTERS = /[^A-Za-z0-9_\-.:/]/g;
+
+/**
+ * Normalizes metric tags with a fixed set of rules, so metrics recorded by the producer
+ * and metrics received by the tail end up with the same tags.
+ * Warns once per metric name when its tags had to be changed, dropping nullish tags is silent.
+ */
+export class TagNormalizer {
+  #options: Required<TagNormalizationOptions>;
+  #warnedMetrics = new Set<string>();
+
+  constructor(options: TagNormalizationOptions = {}) {
+    this.#options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  normalize(metricName: string, tags: Record<string, unknown>): Tags {
+    const { dropNullish, coerceValues, sanitizeKeys, maxTags, maxValueLength } =
+      this.#options;
+    const issues = new Set<string>();
+    const normalized: Tags = {};
+    let tagCount = 0;
+
+    for (const [rawKey, rawValue] of Object.entries(tags)) {
+      if (dropNullish && (rawValue === undefined || rawValue === null)) {
+        continue;
+      }
+
+      let key = rawKey;
+      if (sanitizeKeys) {
+        key = rawKey.replace(UNSAFE_KEY_CHARACTERS, "_");
+        if (key !== rawKey) {
+          issues.add(`sanitized key "${rawKey}"`);
+        }
+      }
+
+      let value = rawValue;
+      if (coerceValues && !isSupportedValue(value)) {
+        value = String(value);
+        issues.add(`coerced value of "${key}"`);
+      }
+      if (typeof value === "string" && value.length > maxValueLength) {
+        value = value.slice(0, maxValueLength);
+        issues.add(`truncated value of "${key}"`);
+      }
+
+      if (!(key in normalized)) {
+        if (tagCount >= maxTags) {
+          issues.add(`dropped tags over the limit of ${maxTags}`);
+          continue;
+        }
+        tagCount++;
+      }
+      normalized[key] = value as Tags[string];
+    }
+
+    if (issues.size > 0 && !this.#warnedMetrics.has(metricName)) {
+      this.#warnedMetrics.add(metricName);
+      console.warn(
+        `Normalized tags of metric "${metricName}": ${Array.from(issues).join(", ")}`,
+      );
+    }
+
+    return normalized;
+  }
+}
+
+function isSupportedValue(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    typeof value === "string" ||
+    typeof value === "boolean" ||
+    (typeof value === "number" && Number.isFinite(value))
+  );
+}